@@ -4,12 +4,16 @@ import { SongData } from './types';
 import { prefetchMetadata } from './services/itunesService';
 import { exportToExcel, exportToPDF, exportForTransfer } from './services/exportService';
 import { decodeHtmlEntities } from './utils/textUtils';
+import { SongFilter, applySongFilter, validateSongFilter, serializeSongFilter, parseSongFilterParam, describeSongFilter, isEmptySongFilter } from './utils/songFilter';
+import { askTop2000 } from './services/askService';
 import {
   handleSpotifyCallback,
   createSpotifyPlaylist,
   createYouTubePlaylist,
   isSpotifyAuthenticated,
   isYouTubeAuthenticated,
+  logoutSpotify,
+  logoutYouTube,
   initiateSpotifyAuth,
   initiateYouTubeAuth,
   SpotifyPlaylistResult,
@@ -23,13 +27,14 @@ import StickyNavigation from './components/StickyNavigation';
 const Modal = lazy(() => import('./components/Modal'));
 
 import HowItWorksModal from './components/HowItWorksModal';
+import RecapModal from './components/RecapModal';
 
 // Calculation Logic moved to Worker
 
 
 const BATCH_SIZE = 20;
-const CACHE_KEY = 'top2000_data_v3'; // Version bump for partial data fix
-const CACHE_TIME_KEY = 'top2000_timestamp_v3';
+const CACHE_KEY = 'top2000_data_v8'; // Version bump for backfilled release years
+const CACHE_TIME_KEY = 'top2000_timestamp_v5';
 const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
 
 const App: React.FC = () => {
@@ -39,6 +44,13 @@ const App: React.FC = () => {
   const [selectedSong, setSelectedSong] = useState<SongData | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState("");
+
+  // "Vraag de Top 2000": a question becomes a structured filter (?filter=)
+  const [searchMode, setSearchMode] = useState<'search' | 'ask'>('search');
+  const [askQuestion, setAskQuestion] = useState("");
+  const [songFilter, setSongFilter] = useState<SongFilter | null>(null);
+  const [askLoading, setAskLoading] = useState(false);
+  const [askError, setAskError] = useState<string | null>(null);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   
   // Header Menus State
@@ -46,6 +58,7 @@ const App: React.FC = () => {
   const [isDownloadOpen, setIsDownloadOpen] = useState(false);
   const [isSoundiizModalOpen, setIsSoundiizModalOpen] = useState(false);
   const [isHowItWorksOpen, setIsHowItWorksOpen] = useState(false);
+  const [recapYear, setRecapYear] = useState<string | null>(null);
   
   // Streaming Setup State
   const [streamingSetupService, setStreamingSetupService] = useState<'spotify' | 'youtube' | null>(null);
@@ -56,6 +69,11 @@ const App: React.FC = () => {
   // Year Selection State: 'all-time' or a specific year string like '2023'
   const [selectedYear, setSelectedYear] = useState<string>('all-time');
   const [isFilterActive, setIsFilterActive] = useState(false);
+
+  // Custom all-time window (e.g. 2010-2024), ranked by the worker
+  const [yearRange, setYearRange] = useState<{ from: string; to: string } | null>(null);
+  // The ranking of a year window, kept with the window it belongs to
+  const [rangeResult, setRangeResult] = useState<{ key: string; songs: SongData[] | null; error: string | null } | null>(null);
   
   // Infinite Scroll State
   const [visibleCount, setVisibleCount] = useState(BATCH_SIZE);
@@ -63,6 +81,8 @@ const App: React.FC = () => {
   const searchInputRef = useRef<HTMLInputElement>(null);
   const spotifyCallbackProcessed = useRef(false);
   const initialUrlProcessed = useRef(false);
+  // Set once the view from the URL (year, filters) has been applied to state
+  const [urlRestored, setUrlRestored] = useState(false);
   const abortController = useRef<AbortController | null>(null);
   
   // Sticky Nav State
@@ -195,10 +215,29 @@ const App: React.FC = () => {
         }
     }
 
+    // Restore custom year range
+    const fromParam = params.get('from');
+    const toParam = params.get('to');
+    if (fromParam && toParam && availableYears.includes(fromParam) && availableYears.includes(toParam) && parseInt(fromParam) <= parseInt(toParam)) {
+        setSelectedYear('all-time');
+        setYearRange({ from: fromParam, to: toParam });
+    }
+
     // Restore Search
     const searchParam = params.get('q');
     if (searchParam) {
         setSearchQuery(searchParam);
+        setDebouncedSearchQuery(searchParam);
+    }
+
+    // Restore the filter from a question
+    const filterParam = params.get('filter');
+    if (filterParam) {
+        const { filter, errors } = validateSongFilter(parseSongFilterParam(filterParam), availableYears);
+        if (errors.length === 0 && !isEmptySongFilter(filter)) {
+            setSongFilter(filter);
+            setAskQuestion(params.get('vraag') || '');
+        }
     }
 
     // Restore Selected Song (Modal)
@@ -207,10 +246,21 @@ const App: React.FC = () => {
         const song = songs.find(s => s.id === songId);
         if (song) {
             setSelectedSong(song);
+        } else {
+            // Old-style id (saved link): the worker resolves it to the canonical song
+            const API_URL = import.meta.env.VITE_API_URL || 'https://api.top2000allertijden.nl';
+            fetch(`${API_URL}/data/song/${encodeURIComponent(songId)}`)
+                .then(res => res.ok ? res.json() : null)
+                .then((resolved: SongData | null) => {
+                    const canonical = resolved && songs.find(s => s.id === resolved.id);
+                    if (canonical) setSelectedSong(canonical);
+                })
+                .catch(e => console.warn("Deep link resolve failed", e));
         }
     }
     
     initialUrlProcessed.current = true;
+    setUrlRestored(true);
   }, [loading, songs, availableYears]);
 
   // SEO & Deep Linking: Update URL and Meta tags when state changes
@@ -229,6 +279,15 @@ const App: React.FC = () => {
           params.delete('year');
       }
 
+      if (yearRange) {
+          params.set('from', yearRange.from);
+          params.set('to', yearRange.to);
+          title = `Top 2000 Allertijden ${yearRange.from}-${yearRange.to} - Top 2000 Allertijden`;
+      } else {
+          params.delete('from');
+          params.delete('to');
+      }
+
       // Update Params & Title based on Search
       if (debouncedSearchQuery) {
           params.set('q', debouncedSearchQuery);
@@ -237,6 +296,17 @@ const App: React.FC = () => {
           params.delete('q');
       }
 
+      // Update Params & Title based on the filter from a question
+      if (songFilter) {
+          params.set('filter', serializeSongFilter(songFilter));
+          if (askQuestion) params.set('vraag', askQuestion);
+          else params.delete('vraag');
+          title = `${askQuestion || describeSongFilter(songFilter)} - Top 2000 Allertijden`;
+      } else {
+          params.delete('filter');
+          params.delete('vraag');
+      }
+
       // Update Params & Title based on Selected Song
       if (selectedSong) {
           params.set('song', selectedSong.id);
@@ -283,11 +353,59 @@ const App: React.FC = () => {
           }
       }
 
-  }, [loading, selectedYear, debouncedSearchQuery, selectedSong]);
+  }, [loading, selectedYear, yearRange, debouncedSearchQuery, songFilter, askQuestion, selectedSong]);
+
+  // Fetch the ranking for a custom year window
+  const rangeKey = yearRange ? `${yearRange.from}-${yearRange.to}` : null;
+
+  useEffect(() => {
+    if (!yearRange) {
+        setRangeResult(null);
+        return;
+    }
+
+    let isCancelled = false;
+    const key = `${yearRange.from}-${yearRange.to}`;
+    const loadRange = async () => {
+        try {
+            const API_URL = import.meta.env.VITE_API_URL || 'https://api.top2000allertijden.nl';
+            const response = await fetch(`${API_URL}/data/all-time?from=${yearRange.from}&to=${yearRange.to}`);
+            if (!response.ok) throw new Error(`API Error: ${response.status}`);
+
+            const data: SongData[] = await response.json();
+            if (!isCancelled) {
+                setRangeResult({
+                    key,
+                    songs: data.map(s => ({
+                        ...s,
+                        artist: decodeHtmlEntities(s.artist),
+                        title: decodeHtmlEntities(s.title)
+                    })),
+                    error: null
+                });
+            }
+        } catch (e: any) {
+            console.error("Error loading year range:", e);
+            if (!isCancelled) setRangeResult({ key, songs: null, error: e.message || 'Onbekende fout' });
+        }
+    };
+
+    loadRange();
+    return () => { isCancelled = true; };
+  }, [yearRange]);
+
+  // A result for another window (the previous one, while the new one loads) is never shown
+  const currentRange = rangeResult && rangeResult.key === rangeKey ? rangeResult : null;
+  const rangeLoading = !!yearRange && !currentRange;
+  const rangeError = currentRange?.error ?? null;
+
+  // Songs behind the current view: the custom window ranking (empty when it
+  // failed to load) or the full all-time list
+  const baseSongs = yearRange ? currentRange?.songs ?? [] : songs;
 
   // Filter and Sort Songs based on Search AND Selected Year
   const processedSongs = useMemo(() => {
-    let result = [...songs];
+    let result = [...baseSongs];
 
     // 1. Search Filter (using debounced query)
     if (debouncedSearchQuery) {
@@ -298,6 +416,11 @@ const App: React.FC = () => {
         );
     }
 
+    // 1b. Structured filter from a question (/ask)
+    if (songFilter) {
+        result = applySongFilter(result, songFilter);
+    }
+
     // 2. Year Filter & Sort
     if (selectedYear !== 'all-time') {
         const prevYear = (parseInt(selectedYear) - 1).toString();
@@ -357,12 +480,12 @@ const App: React.FC = () => {
     }
 
     return result;
-  }, [songs, debouncedSearchQuery, selectedYear, isFilterActive]);
+  }, [baseSongs, debouncedSearchQuery, songFilter, selectedYear, isFilterActive]);
   
   // Handle OAuth Callbacks
   useEffect(() => {
-    // Wait for data to load
-    if (loading) return;
+    // Wait for data and for the view the login started from (restored from the URL)
+    if (loading || !urlRestored || rangeLoading) return;
 
     const hash = window.location.hash;
     const searchParams = new URLSearchParams(window.location.search);
@@ -371,18 +494,16 @@ const App: React.FC = () => {
     if (hash.includes('#callback') || hash.includes('access_token')) {
         const hashParams = new URLSearchParams(hash.replace('#callback&', '').replace('#', ''));
         const accessToken = hashParams.get('access_token');
-        const refreshToken = hashParams.get('refresh_token');
         const expiresIn = hashParams.get('expires_in');
         const service = hashParams.get('service');
         
         if (accessToken && service) {
-             // Save tokens
+             // Save the short-lived access token (the refresh token stays in the Worker session)
              const storageKey = `top2000_streaming_${service}`;
              const config: any = {
                  accessToken,
                  expiresAt: Date.now() + (parseInt(expiresIn || '3600') * 1000)
              };
-             if (refreshToken) config.refreshToken = refreshToken;
              
              localStorage.setItem(storageKey, JSON.stringify(config));
 
@@ -401,7 +522,9 @@ const App: React.FC = () => {
 
                  (async () => {
                     try {
-                        const yearLabel = selectedYear === 'all-time' ? 'Allertijden' : selectedYear;
+                        const yearLabel = selectedYear === 'all-time'
+                            ? (yearRange ? `Allertijden ${yearRange.from}-${yearRange.to}` : 'Allertijden')
+                            : selectedYear;
                         const playlistName = `Top 2000 ${yearLabel} - ${new Date().toLocaleDateString('nl-NL')}`;
                         
                         let result;
@@ -442,10 +565,13 @@ const App: React.FC = () => {
     const error = searchParams.get('error');
     if (error) {
         alert(`Authenticatie fout: ${error}`);
-        window.history.replaceState(null, '', window.location.pathname);
+        // Keep the rest of the view (year, filters) in the URL
+        searchParams.delete('error');
+        const query = searchParams.toString();
+        window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
     }
 
-  }, [processedSongs, selectedYear, loading]);
+  }, [processedSongs, selectedYear, yearRange, rangeLoading, loading, urlRestored]);
 
   // Initialize Data
   useEffect(() => {
@@ -479,6 +605,24 @@ const App: React.FC = () => {
         setLoadingStatus("Top 2000 data ophalen...");
         
         const API_URL = import.meta.env.VITE_API_URL || 'https://api.top2000allertijden.nl';
+
+        // Deep link: open the requested song right away instead of waiting for the full list
+        const deepLinkId = new URLSearchParams(window.location.search).get('song');
+        if (deepLinkId) {
+            fetch(`${API_URL}/data/song/${encodeURIComponent(deepLinkId)}`)
+                .then(res => res.ok ? res.json() : null)
+                .then((song: SongData | null) => {
+                    if (song) {
+                        setSelectedSong(prev => prev ?? {
+                            ...song,
+                            artist: decodeHtmlEntities(song.artist),
+                            title: decodeHtmlEntities(song.title)
+                        });
+                    }
+                })
+                .catch(e => console.warn("Deep link fetch failed", e));
+        }
+
         const response = await fetch(`${API_URL}/data/all-time`);
         
         if (!response.ok) {
@@ -528,7 +672,7 @@ const App: React.FC = () => {
             window.scrollTo({ top: 400, behavior: 'smooth' });
         }
     }
-  }, [debouncedSearchQuery, selectedYear]);
+  }, [debouncedSearchQuery, selectedYear, yearRange]);
 
   // Infinite Scroll Observer
   useEffect(() => {
@@ -558,10 +702,10 @@ const App: React.FC = () => {
   // Derived state for Modal (Other songs by artist)
   const otherSongsBySelectedArtist = useMemo(() => {
     if (!selectedSong) return [];
-    return songs
+    return baseSongs
         .filter(s => s.artist === selectedSong.artist && s.id !== selectedSong.id)
         .sort((a,b) => (a.allTimeRank || 9999) - (b.allTimeRank || 9999));
-  }, [selectedSong, songs]);
+  }, [selectedSong, baseSongs]);
 
   const handleSelectSong = useCallback((song: SongData) => {
     setSelectedSong(song);
@@ -571,6 +715,19 @@ const App: React.FC = () => {
     setSelectedSong(null);
   }, []);
 
+  // Jaaroverzicht: the selected edition, or the latest one in the all-time view
+  const handleOpenRecap = useCallback(() => {
+    setRecapYear(selectedYear === 'all-time' ? availableYears[0] : selectedYear);
+  }, [selectedYear, availableYears]);
+
+  // Opens a song from the recap or a news item
+  const handleSelectSongById = useCallback((id: string) => {
+    const song = songs.find(s => s.id === id);
+    if (!song) return;
+    setRecapYear(null);
+    setSelectedSong(song);
+  }, [songs]);
+
   // Derived state for Navigation
   const selectedSongIndex = useMemo(() => {
     if (!selectedSong) return -1;
@@ -606,8 +763,57 @@ const App: React.FC = () => {
   const soundiizUrl = useMemo(() => {
     const API_URL = import.meta.env.VITE_API_URL || 'https://api.top2000allertijden.nl';
     const yearLabel = selectedYear === 'all-time' ? 'all-time' : selectedYear;
-    return `${API_URL}/export/top2000-${yearLabel}.json`;
-  }, [selectedYear]);
+    const rangeQuery = selectedYear === 'all-time' && yearRange ? `?from=${yearRange.from}&to=${yearRange.to}` : '';
+    return `${API_URL}/export/top2000-${yearLabel}.json${rangeQuery}`;
+  }, [selectedYear, yearRange]);
+
+  const handleYearSelect = (value: string) => {
+    if (value === 'range') {
+        // Default window: the last ten editions
+        const to = availableYears[0];
+        const from = availableYears[Math.min(9, availableYears.length - 1)];
+        setSelectedYear('all-time');
+        setYearRange({ from, to });
+    } else {
+        setYearRange(null);
+        setSelectedYear(value);
+    }
+  };
+
+  const handleRangeChange = (bound: 'from' | 'to', value: string) => {
+    if (!yearRange) return;
+    const next = { ...yearRange, [bound]: value };
+    // Keep the window valid by moving the other bound along
+    if (parseInt(next.from) > parseInt(next.to)) {
+        if (bound === 'from') next.to = value;
+        else next.from = value;
+    }
+    setYearRange(next);
+  };
+
+  // Ask mode: the worker turns the question into a filter, which the list applies itself
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const question = askQuestion.trim();
+    if (!question || askLoading) return;
+
+    setAskLoading(true);
+    setAskError(null);
+    const response = await askTop2000(question);
+    if ('result' in response) {
+        setSongFilter(response.result.filter);
+        setVisibleCount(BATCH_SIZE);
+    } else {
+        setAskError(response.error);
+    }
+    setAskLoading(false);
+  };
+
+  const handleClearSongFilter = () => {
+    setSongFilter(null);
+    setAskQuestion('');
+    setAskError(null);
+  };
 
   const handleCopySoundiizUrl = () => {
      navigator.clipboard.writeText(soundiizUrl).then(() => {
@@ -651,6 +857,20 @@ const App: React.FC = () => {
     }
   };
 
+  // Ends the Worker session for the service (revokes the token at Google)
+  const handleStreamingLogout = async (service: 'spotify' | 'youtube') => {
+    setIsDownloadOpen(false);
+    try {
+      if (service === 'spotify') {
+        await logoutSpotify();
+      } else {
+        await logoutYouTube();
+      }
+    } catch (e) {
+      console.warn("Logout failed", e);
+    }
+  };
+
   const handleStreamingExport = async (service: 'spotify' | 'youtube') => {
     // Check if configured
     let config;
@@ -735,6 +955,7 @@ const App: React.FC = () => {
                                   setIsMenuOpen(false); 
                                   setSearchQuery(''); 
                                   setSelectedYear('all-time'); 
+                                  setYearRange(null);
                                   window.scrollTo({ top: 0, behavior: 'smooth' });
                               }} 
                               className="block w-full text-left py-3 px-4 hover:bg-white/10 rounded transition font-medium"
@@ -786,7 +1007,7 @@ const App: React.FC = () => {
                 <button className="text-white hover:bg-white/10 p-2 rounded transition" onClick={() => setIsMenuOpen(true)} aria-label="Open menu">
                     <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" /></svg>
                 </button>
-                <div className="cursor-pointer" onClick={() => { setSearchQuery(''); setSelectedYear('all-time'); window.scrollTo(0,0); }}>
+                <div className="cursor-pointer" onClick={() => { setSearchQuery(''); setSelectedYear('all-time'); setYearRange(null); window.scrollTo(0,0); }}>
                    <img 
                     src={`${import.meta.env.BASE_URL}Image/top2000.png`} 
                     alt="Top 2000 Logo" 
@@ -845,7 +1066,7 @@ const App: React.FC = () => {
         {/* RSS Feed Section */}
         {!debouncedSearchQuery && (
           <div ref={newsFeedRef}>
-            <NewsFeed />
+            <NewsFeed onSelectSong={handleSelectSongById} />
           </div>
         )}
 
@@ -966,6 +1187,16 @@ const App: React.FC = () => {
                                        )}
                                      </div>
                                  </button>
+                                 {isSpotifyAuthenticated() && (
+                                     <button onClick={() => handleStreamingLogout('spotify')} className="px-4 py-2 hover:bg-gray-50 w-full text-left text-xs text-gray-500 border-t border-gray-100 transition">
+                                         Spotify ontkoppelen
+                                     </button>
+                                 )}
+                                 {isYouTubeAuthenticated() && (
+                                     <button onClick={() => handleStreamingLogout('youtube')} className="px-4 py-2 hover:bg-gray-50 w-full text-left text-xs text-gray-500 border-t border-gray-100 transition">
+                                         YouTube Music ontkoppelen
+                                     </button>
+                                 )}
                                  
                                 <div className="px-3 py-2 text-xs font-bold text-gray-500 uppercase tracking-wider border-t border-gray-100 mt-1">
                                     Overig
@@ -1027,62 +1258,123 @@ const App: React.FC = () => {
                     <div className="w-full bg-transparent border border-white/50 rounded flex items-center text-white h-14 relative hover:border-white transition-colors cursor-pointer group">
                         <div className="px-5 font-normal text-white/90 border-r border-white/30 h-full flex items-center text-lg">Jaar</div>
                         <div className="flex-1 px-5 font-bold flex items-center justify-between text-lg">
-                            <span>{selectedYear === 'all-time' ? 'Allertijden' : selectedYear}</span>
+                            <span>{yearRange ? `Allertijden ${yearRange.from} - ${yearRange.to}` : selectedYear === 'all-time' ? 'Allertijden' : selectedYear}</span>
                             <svg className="w-6 h-6 group-hover:translate-y-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M19 9l-7 7-7-7" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"/></svg>
                         </div>
                         {/* Invisible Select overlay for native behavior */}
                         <select 
-                            value={selectedYear} 
-                            onChange={(e) => setSelectedYear(e.target.value)}
+                            value={yearRange ? 'range' : selectedYear} 
+                            onChange={(e) => handleYearSelect(e.target.value)}
                             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer text-black"
                             aria-label="Kies jaar"
                         >
                              <option value="all-time" className="bg-white text-gray-900">Allertijden</option>
+                             <option value="range" className="bg-white text-gray-900">Allertijden (eigen periode)</option>
                              {availableYears.map(y => <option key={y} value={y} className="bg-white text-gray-900">{y}</option>)}
                         </select>
                     </div>
 
-                    <button
-                        onClick={() => setIsFilterActive(!isFilterActive)}
-                        className={`mt-2 w-full flex items-center justify-center gap-2 py-2 px-4 rounded font-bold uppercase tracking-wider text-sm border transition-all ${
-                            isFilterActive 
-                                ? 'bg-white text-[#d00018] border-white' 
-                                : 'bg-transparent text-white border-white/30 hover:border-white hover:bg-white/10'
-                        }`}
-                    >
-                        {isFilterActive && (
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>
-                        )}
-                        {selectedYear === 'all-time' || selectedYear === '1999' 
-                            ? 'Nieuwkomers' 
-                            : 'Nieuwkomers & Afvallers'
-                        }
-                    </button>
+                    {/* Custom period: from / to */}
+                    {yearRange && (
+                        <div className="mt-2 flex gap-2">
+                            {(['from', 'to'] as const).map(bound => (
+                                <label key={bound} className="flex-1 flex items-center border border-white/50 rounded text-white h-12 hover:border-white transition-colors">
+                                    <span className="px-4 text-white/90 border-r border-white/30 h-full flex items-center">{bound === 'from' ? 'Van' : 'Tot en met'}</span>
+                                    <select
+                                        value={yearRange[bound]}
+                                        onChange={(e) => handleRangeChange(bound, e.target.value)}
+                                        className="flex-1 bg-transparent px-4 font-bold h-full outline-none cursor-pointer"
+                                        aria-label={bound === 'from' ? 'Eerste jaar' : 'Laatste jaar'}
+                                    >
+                                        {[...availableYears].reverse().map(y => <option key={y} value={y} className="bg-white text-gray-900">{y}</option>)}
+                                    </select>
+                                </label>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="mt-2 flex gap-2">
+                        <button
+                            onClick={() => setIsFilterActive(!isFilterActive)}
+                            className={`flex-1 flex items-center justify-center gap-2 py-2 px-4 rounded font-bold uppercase tracking-wider text-sm border transition-all ${
+                                isFilterActive 
+                                    ? 'bg-white text-[#d00018] border-white' 
+                                    : 'bg-transparent text-white border-white/30 hover:border-white hover:bg-white/10'
+                            }`}
+                        >
+                            {isFilterActive && (
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>
+                            )}
+                            {selectedYear === 'all-time' || selectedYear === '1999' 
+                                ? 'Nieuwkomers' 
+                                : 'Nieuwkomers & Afvallers'
+                            }
+                        </button>
+                        <button
+                            onClick={handleOpenRecap}
+                            disabled={availableYears.length === 0}
+                            className="flex-1 flex items-center justify-center gap-2 py-2 px-4 rounded font-bold uppercase tracking-wider text-sm border bg-transparent text-white border-white/30 hover:border-white hover:bg-white/10 transition-all disabled:opacity-50"
+                        >
+                            Jaaroverzicht
+                        </button>
+                    </div>
                 </div>
 
-                {/* Row 3: Search Bar */}
-                <div className="relative flex h-14 bg-white rounded overflow-hidden shadow-lg z-10">
+                {/* Row 3: Search Bar (text search, or a question in ask mode) */}
+                <form onSubmit={searchMode === 'ask' ? handleAsk : (e) => e.preventDefault()} className="relative flex h-14 bg-white rounded overflow-hidden shadow-lg z-10">
+                     <button
+                         type="button"
+                         onClick={() => setSearchMode(searchMode === 'ask' ? 'search' : 'ask')}
+                         className={`px-4 text-xs font-bold uppercase tracking-wider border-r border-gray-200 transition ${searchMode === 'ask' ? 'bg-gray-900 text-white' : 'text-gray-500 hover:text-gray-900'}`}
+                         aria-pressed={searchMode === 'ask'}
+                         title="Stel een vraag over de lijst"
+                     >
+                         Vraag
+                     </button>
                      <input 
                          ref={searchInputRef}
                          id="searchInput"
                          type="text"
-                         className="flex-1 px-5 text-gray-900 placeholder-gray-500 bg-white h-full outline-none text-lg"
-                         placeholder="Zoeken" 
-                         value={searchQuery}
-                         onChange={(e) => setSearchQuery(e.target.value)}
+                         className="flex-1 min-w-0 px-5 text-gray-900 placeholder-gray-500 bg-white h-full outline-none text-lg"
+                         placeholder={searchMode === 'ask' ? 'Bijv. welke nummers uit 1985 stonden ooit in de top 10?' : 'Zoeken'}
+                         value={searchMode === 'ask' ? askQuestion : searchQuery}
+                         onChange={(e) => searchMode === 'ask' ? setAskQuestion(e.target.value) : setSearchQuery(e.target.value)}
+                         maxLength={searchMode === 'ask' ? 300 : undefined}
                      />
-                     <button onClick={() => searchQuery ? setSearchQuery('') : null} className="bg-[#d00018] w-14 flex items-center justify-center text-white hover:bg-[#b00014] transition" aria-label="Zoekopdracht wissen">
-                         {searchQuery ? (
-                             <span className="text-white font-bold text-2xl">&times;</span>
-                         ) : (
-                             <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
-                         )}
-                     </button>
-                </div>
+                     {searchMode === 'ask' ? (
+                         <button type="submit" disabled={askLoading} className="bg-[#d00018] w-14 flex items-center justify-center text-white hover:bg-[#b00014] transition disabled:opacity-70" aria-label="Vraag stellen">
+                             {askLoading ? (
+                                 <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                             ) : (
+                                 <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
+                             )}
+                         </button>
+                     ) : (
+                         <button type="button" onClick={() => searchQuery ? setSearchQuery('') : null} className="bg-[#d00018] w-14 flex items-center justify-center text-white hover:bg-[#b00014] transition" aria-label="Zoekopdracht wissen">
+                             {searchQuery ? (
+                                 <span className="text-white font-bold text-2xl">&times;</span>
+                             ) : (
+                                 <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+                             )}
+                         </button>
+                     )}
+                </form>
+
+                {askError && (
+                    <p className="mt-2 text-sm text-white font-bold">{askError}</p>
+                )}
+
+                {songFilter && (
+                    <div className="mt-2 flex items-center gap-2 bg-white/10 border border-white/30 rounded px-3 py-2 text-white text-sm">
+                        <span className="font-bold uppercase tracking-wider text-xs text-white/70">Filter</span>
+                        <span className="flex-1 font-bold">{describeSongFilter(songFilter)}</span>
+                        <button onClick={handleClearSongFilter} className="font-bold text-xl leading-none hover:text-white/70" aria-label="Filter wissen">&times;</button>
+                    </div>
+                )}
             </div>
 
             <div className="p-4 md:p-6 space-y-3">
-                 {loading ? (
+                 {loading || rangeLoading ? (
                     <div className="text-center py-20">
                         <div className="w-12 h-12 border-4 border-[#d00018] border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
                         <p className="text-white font-bold animate-pulse">{loadingStatus}</p>
@@ -1130,7 +1422,9 @@ const App: React.FC = () => {
                             })
                         ) : (
                             <div className="text-center py-10 text-white/60">
-                                {debouncedSearchQuery 
+                                {rangeError
+                                    ? `De ranglijst ${yearRange?.from}-${yearRange?.to} kon niet worden geladen (${rangeError}).`
+                                    : debouncedSearchQuery 
                                     ? 'Geen nummers gevonden met deze zoekterm.' 
                                     : selectedYear !== 'all-time' 
                                         ? `Geen data beschikbaar voor het jaar ${selectedYear}.` 
@@ -1339,6 +1633,14 @@ const App: React.FC = () => {
         <HowItWorksModal onClose={() => setIsHowItWorksOpen(false)} />
       )}
 
+      {recapYear && (
+        <RecapModal
+          year={recapYear}
+          onClose={() => setRecapYear(null)}
+          onSelectSong={handleSelectSongById}
+        />
+      )}
+
     </div>
   );
 };
@@ -0,0 +1,38 @@
+import React, { useState, memo } from 'react';
+import { artworkUrl, ArtworkSize } from '../services/artworkService';
+import { coverPlaceholder } from '../utils/coverPlaceholder';
+
+interface CoverImageProps {
+  src: string | null | undefined; // iTunes cover; null = not found, undefined = still looking
+  songId: string;
+  rank?: number | null; // shown on the placeholder
+  size: ArtworkSize;
+  alt: string;
+  className?: string;
+  loading?: 'lazy' | 'eager';
+}
+
+// Shows the iTunes cover, else the worker's artwork (Deezer, Cover Art Archive),
+// else a generated placeholder with the rank. Each image that fails to load
+// moves on to the next one.
+const CoverImage: React.FC<CoverImageProps> = memo(({ src, songId, rank, size, alt, className, loading = 'lazy' }) => {
+  const [failed, setFailed] = useState<string[]>([]);
+
+  const candidates = src === undefined ? [] : [...(src ? [src] : []), artworkUrl(songId, size)];
+  const url = candidates.find(candidate => !failed.includes(candidate)) ?? coverPlaceholder(rank);
+
+  return (
+    <img
+      src={url}
+      alt={alt}
+      loading={loading}
+      decoding="async"
+      className={className}
+      onError={() => setFailed(current => current.includes(url) ? current : [...current, url])}
+    />
+  );
+});
+
+CoverImage.displayName = 'CoverImage';
+
+export default CoverImage;
@@ -1,11 +1,13 @@
 import React, { useEffect, useState, memo, useCallback } from 'react';
-import { SongData } from '../types';
+import { SongData, SongAnalysis } from '../types';
 import SongChart from './SongChart';
 import AudioPlayer from './AudioPlayer';
-import { getSongAnalysis } from '../services/geminiService';
+import { streamSongAnalysis } from '../services/geminiService';
 import { getLyrics } from '../services/lyricsService';
-import { fetchSongMetadata } from '../services/itunesService';
+import { fetchSongMetadata, getKnownMetadata, MetadataCacheEntry } from '../services/itunesService';
+import { formatDuration } from '../utils/textUtils';
 import { YouTubeTop2000Embed } from './YouTubeTop2000Embed';
+import CoverImage from './CoverImage';
 
 interface ModalProps {
   song: SongData;
@@ -20,6 +22,14 @@ interface ModalProps {
 
 type Tab = 'overview' | 'video' | 'lyrics';
 
+const YEAR_SOURCES = { musicbrainz: 'MusicBrainz', itunes: 'iTunes' };
+const YEAR_CONFIDENCE = { high: 'hoog', medium: 'gemiddeld', low: 'laag' };
+
+// Years the worker filled in are marked, with where they came from on hover
+const yearTitle = (song: SongData): string | undefined => song.releaseYearSource
+  ? `Jaar aangevuld via ${YEAR_SOURCES[song.releaseYearSource]} (zekerheid: ${YEAR_CONFIDENCE[song.releaseYearConfidence ?? 'low']})`
+  : undefined;
+
 // Sub-component for the "More from artist" list items
 const RelatedSongRow: React.FC<{ song: SongData; onClick: () => void }> = memo(({ song, onClick }) => {
   const [cover, setCover] = useState<string | null | undefined>(song.coverUrl);
@@ -45,13 +55,14 @@ const RelatedSongRow: React.FC<{ song: SongData; onClick: () => void }> = memo((
       className="flex items-center gap-3 p-3 bg-white hover:bg-gray-50 border border-gray-200 hover:border-[#d00018] rounded-lg cursor-pointer transition group shadow-sm"
     >
       <div className="relative w-12 h-12 bg-gray-200 rounded overflow-hidden shrink-0 group/image">
-        {cover ? (
-          <img src={cover} alt={song.title} className="w-full h-full object-cover" loading="lazy" decoding="async" />
-        ) : (
-          <div className="w-full h-full bg-gray-300 flex items-center justify-center text-gray-500 font-bold text-xs">
-            #
-          </div>
-        )}
+        <CoverImage
+          src={cover}
+          songId={song.id}
+          rank={song.allTimeRank}
+          size="thumb"
+          alt={song.title}
+          className="w-full h-full object-cover"
+        />
         
         {/* Mini Play Button Overlay */}
         {preview && (
@@ -88,9 +99,10 @@ const Modal: React.FC<ModalProps> = memo(({
   // Local Metadata State (in case song prop is missing data)
   const [localCover, setLocalCover] = useState<string | null | undefined>(song.coverUrl);
   const [localPreview, setLocalPreview] = useState<string | null | undefined>(song.previewUrl);
+  const [details, setDetails] = useState<MetadataCacheEntry>(() => getKnownMetadata(song));
 
   // Analysis State
-  const [analysis, setAnalysis] = useState<string>('');
+  const [analysis, setAnalysis] = useState<SongAnalysis | null>(null);
   const [loadingAnalysis, setLoadingAnalysis] = useState(false);
   
   // Lyrics State
@@ -129,29 +141,45 @@ const Modal: React.FC<ModalProps> = memo(({
   useEffect(() => {
     setActiveTab('overview');
     setIsScrolled(false);
-    setAnalysis('');
+    setAnalysis(null);
     setLyrics('');
     setLocalCover(song.coverUrl);
     setLocalPreview(song.previewUrl);
-    
+    setDetails(getKnownMetadata(song));
+
+    // Cancelled when the song changes or the modal closes
+    const controller = new AbortController();
+
     // If metadata is missing, try to fetch it
-    if (!song.coverUrl) {
+    if (!song.coverUrl || song.album === undefined) {
       fetchSongMetadata(song.artist, song.title).then(meta => {
-        setLocalCover(meta.coverUrl);
-        setLocalPreview(meta.previewUrl);
+        if (controller.signal.aborted) return;
+        if (!song.coverUrl) {
+          setLocalCover(meta.coverUrl);
+          setLocalPreview(meta.previewUrl);
+        }
+        setDetails(getKnownMetadata(song, meta));
       });
     }
 
-    // Fetch Analysis immediately
+    // Stream Analysis immediately
     const fetchAnalysis = async () => {
       setLoadingAnalysis(true);
-      const text = await getSongAnalysis(song.artist, song.title);
-      setAnalysis(text);
-      setLoadingAnalysis(false);
+      try {
+        const result = await streamSongAnalysis(song.artist, song.title, partial => {
+          setAnalysis(partial);
+          setLoadingAnalysis(false);
+        }, controller.signal);
+        setAnalysis(result);
+        setLoadingAnalysis(false);
+      } catch (error) {
+        // Aborted: the next song's analysis takes over
+      }
     };
 
     fetchAnalysis();
-  }, [song.id, song.artist, song.title, song.coverUrl, song.previewUrl]);
+    return () => controller.abort();
+  }, [song.id, song.artist, song.title, song.coverUrl, song.previewUrl, song.album]);
 
   // Fetch Lyrics when tab changes to lyrics
   useEffect(() => {
@@ -222,14 +250,16 @@ const Modal: React.FC<ModalProps> = memo(({
           <div className={`relative shrink-0 group transition-all duration-500 ease-in-out ${
             isScrolled ? 'ml-8 md:ml-10' : 'ml-8 md:ml-10'
           }`}>
-            <img 
-              src={localCover || 'https://picsum.photos/200/200'} 
+            <CoverImage
+              src={localCover}
+              songId={song.id}
+              rank={song.allTimeRank}
+              size="large"
               className={`rounded shadow-lg border-2 border-white/20 bg-gray-800 object-cover transition-all duration-500 ease-in-out ${
                 isScrolled ? 'w-16 h-16' : 'w-32 h-32'
               }`}
               alt={song.title}
               loading="eager"
-              decoding="async"
             />
             <div className={`absolute -bottom-4 -right-4 transition-opacity duration-300 ${isScrolled ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
                <AudioPlayer previewUrl={localPreview} />
@@ -254,8 +284,8 @@ const Modal: React.FC<ModalProps> = memo(({
               <span className="bg-white/20 px-2 py-1 rounded">
                 Allertijden Rank #{song.allTimeRank}
               </span>
-              <span className="bg-white/20 px-2 py-1 rounded">
-                {song.releaseYear > 0 ? song.releaseYear : 'N/A'}
+              <span className="bg-white/20 px-2 py-1 rounded" title={yearTitle(song)}>
+                {song.releaseYear > 0 ? song.releaseYear : 'N/A'}{song.releaseYearSource && '*'}
               </span>
               <span className="bg-white/20 px-2 py-1 rounded">
                 {song.totalScore?.toLocaleString()} punten
@@ -293,6 +323,53 @@ const Modal: React.FC<ModalProps> = memo(({
         >
           {activeTab === 'overview' && (
             <div className="space-y-8 animate-fade-in">
+              {/* Track Details */}
+              {(details.album || details.durationMs || details.genre || details.releaseDate || details.trackViewUrl) && (
+                <section className="bg-white rounded-xl p-4 border border-gray-200 shadow-sm">
+                  <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    {details.album && (
+                      <div className="col-span-2 md:col-span-1 min-w-0">
+                        <dt className="text-xs font-bold uppercase tracking-wide text-gray-400">Album</dt>
+                        <dd className="text-gray-900 font-medium truncate" title={details.album}>{details.album}</dd>
+                      </div>
+                    )}
+                    {details.durationMs && (
+                      <div>
+                        <dt className="text-xs font-bold uppercase tracking-wide text-gray-400">Duur</dt>
+                        <dd className="text-gray-900 font-medium font-mono">{formatDuration(details.durationMs)}</dd>
+                      </div>
+                    )}
+                    {details.genre && (
+                      <div>
+                        <dt className="text-xs font-bold uppercase tracking-wide text-gray-400">Genre</dt>
+                        <dd className="text-gray-900 font-medium">{details.genre}</dd>
+                      </div>
+                    )}
+                    {details.releaseDate && (
+                      <div>
+                        <dt className="text-xs font-bold uppercase tracking-wide text-gray-400">Uitgebracht</dt>
+                        <dd className="text-gray-900 font-medium">
+                          {new Date(details.releaseDate).toLocaleDateString('nl-NL', { day: 'numeric', month: 'long', year: 'numeric' })}
+                        </dd>
+                      </div>
+                    )}
+                  </dl>
+                  {details.trackViewUrl && (
+                    <a
+                      href={details.trackViewUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 mt-4 text-sm font-bold text-[#d00018] hover:underline"
+                    >
+                      Bekijk in Apple Music
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                      </svg>
+                    </a>
+                  )}
+                </section>
+              )}
+
               {/* Chart Section */}
               <section>
                 <h3 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2 brand-font uppercase">
@@ -323,12 +400,40 @@ const Modal: React.FC<ModalProps> = memo(({
                         <div className="h-2 bg-gray-200 rounded w-4/6"></div>
                       </div>
                     </div>
-                  ) : (
-                    <p>{analysis}</p>
+                  ) : analysis && (
+                    <>
+                      {(analysis.mood || analysis.era) && (
+                        <div className="flex flex-wrap gap-2 mb-3">
+                          {analysis.era && (
+                            <span className="text-xs font-bold uppercase tracking-wide bg-gray-100 text-gray-700 px-2 py-1 rounded">
+                              {analysis.era}
+                            </span>
+                          )}
+                          {analysis.mood && (
+                            <span className="text-xs font-bold uppercase tracking-wide bg-red-50 text-[#d00018] px-2 py-1 rounded">
+                              {analysis.mood}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                      <p>{analysis.summary}</p>
+                      {analysis.trivia.length > 0 && (
+                        <ul className="mt-4 space-y-2">
+                          {analysis.trivia.map((fact, index) => (
+                            <li key={index} className="flex gap-2 text-sm">
+                              <span className="text-[#d00018] font-bold">•</span>
+                              <span>{fact}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </>
+                  )}
+                  {analysis?.model && !analysis.fallback && (
+                    <p className="text-[10px] text-gray-400 mt-4 text-right">
+                      Analyse gegenereerd met {analysis.model}
+                    </p>
                   )}
-                  <p className="text-[10px] text-gray-400 mt-4 text-right">
-                    Analyse gegenereerd met Groq (llama-3.1-8b-instant)
-                  </p>
                 </div>
               </section>
 
@@ -358,6 +463,7 @@ const Modal: React.FC<ModalProps> = memo(({
                    <YouTubeTop2000Embed 
                       artist={song.artist} 
                       title={song.title} 
+                      videoId={song.youtubeId}
                       autoplay={false}
                    />
                 </div>
@@ -2,19 +2,40 @@
 import React, { useEffect, useState, memo } from 'react';
 import { fetchNewsFeed, NewsItem } from '../services/rssService';
 
-const NewsFeed: React.FC = memo(() => {
+const PAGE_SIZE = 3;
+
+const formatDate = (iso: string | null): string =>
+  iso ? new Date(iso).toLocaleDateString('nl-NL', { day: 'numeric', month: 'long', year: 'numeric' }) : '';
+
+interface NewsFeedProps {
+  onSelectSong: (id: string) => void;
+}
+
+const NewsFeed: React.FC<NewsFeedProps> = memo(({ onSelectSong }) => {
   const [news, setNews] = useState<NewsItem[]>([]);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   useEffect(() => {
     const loadNews = async () => {
-      const items = await fetchNewsFeed();
-      setNews(items);
+      const page = await fetchNewsFeed(PAGE_SIZE);
+      setNews(page.items);
+      setTotal(page.total);
       setLoading(false);
     };
     loadNews();
   }, []);
 
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    const page = await fetchNewsFeed(PAGE_SIZE, news.length);
+    setNews(prev => [...prev, ...page.items]);
+    // An empty page (error or a shrunken feed) hides the button
+    setTotal(page.items.length > 0 ? page.total : news.length);
+    setLoadingMore(false);
+  };
+
   if (news.length === 0 && !loading) return null;
 
   return (
@@ -36,50 +57,83 @@ const NewsFeed: React.FC = memo(() => {
       ) : (
       
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 px-4 md:px-0">
-        {news.slice(0, 3).map((item, idx) => (
-          <a 
-            key={idx} 
-            href={item.link} 
-            target="_blank" 
-            rel="noopener noreferrer"
+        {news.map(item => (
+          <div
+            key={item.link}
             className="group bg-white rounded-lg shadow-sm hover:shadow-md transition-all duration-200 overflow-hidden border border-gray-100 flex flex-col h-full hover:-translate-y-1"
           >
-            <div className="relative h-48 bg-gray-200 overflow-hidden">
-              {item.imageUrl ? (
-                <img 
-                  src={item.imageUrl} 
-                  alt={item.title} 
-                  className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
-                  loading="lazy"
-                  decoding="async"
-                />
-              ) : (
-                <div className="w-full h-full flex items-center justify-center bg-gray-100 text-gray-400">
-                   <svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+            <a 
+              href={item.link} 
+              target="_blank" 
+              rel="noopener noreferrer"
+              className="flex-1 flex flex-col"
+            >
+              <div className="relative h-48 bg-gray-200 overflow-hidden">
+                {item.imageUrl ? (
+                  <img 
+                    src={item.imageUrl} 
+                    alt={item.title} 
+                    className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
+                    loading="lazy"
+                    decoding="async"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center bg-gray-100 text-gray-400">
+                     <svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+                  </div>
+                )}
+                <div className="absolute top-0 right-0 bg-[#d00018] text-white text-xs font-bold px-2 py-1 m-2 rounded uppercase">
+                  {item.sourceLabel}
                 </div>
-              )}
-              <div className="absolute top-0 right-0 bg-[#d00018] text-white text-xs font-bold px-2 py-1 m-2 rounded uppercase">
-                Nieuws
               </div>
-            </div>
             
-            <div className="p-5 flex-1 flex flex-col">
-              <span className="text-xs text-gray-400 font-mono mb-2 block">{item.pubDate}</span>
-              <h4 className="font-bold text-lg leading-tight text-gray-900 group-hover:text-[#d00018] transition-colors mb-2 brand-font">
-                {item.title}
-              </h4>
-              <p className="text-gray-600 text-sm line-clamp-3 flex-1">
-                {item.description}
-              </p>
-              <div className="mt-4 flex items-center text-[#d00018] font-bold text-xs uppercase tracking-wider group-hover:underline">
-                Lees Meer 
-                <svg className="w-4 h-4 ml-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" /></svg>
+              <div className="p-5 flex-1 flex flex-col">
+                <span className="text-xs text-gray-400 font-mono mb-2 block">{formatDate(item.pubDate)}</span>
+                <h4 className="font-bold text-lg leading-tight text-gray-900 group-hover:text-[#d00018] transition-colors mb-2 brand-font">
+                  {item.title}
+                </h4>
+                <p className="text-gray-600 text-sm line-clamp-3 flex-1">
+                  {item.description}
+                </p>
+                <div className="mt-4 flex items-center text-[#d00018] font-bold text-xs uppercase tracking-wider group-hover:underline">
+                  Lees Meer 
+                  <svg className="w-4 h-4 ml-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" /></svg>
+                </div>
+              </div>
+            </a>
+
+            {/* Songs mentioned in the article; chips open the song details */}
+            {item.songs && item.songs.length > 0 && (
+              <div className="px-5 pb-5 flex flex-wrap gap-2">
+                {item.songs.map(song => (
+                  <button
+                    key={song.id}
+                    onClick={() => onSelectSong(song.id)}
+                    className="inline-flex items-center gap-1 max-w-full bg-gray-100 hover:bg-[#d00018] hover:text-white text-gray-700 text-xs font-bold px-3 py-1 rounded-full transition"
+                    title={`${song.artist} - ${song.title}`}
+                  >
+                    <svg className="w-3 h-3 flex-shrink-0" fill="currentColor" viewBox="0 0 24 24"><path d="M12 3v10.55A4 4 0 1014 17V7h4V3h-6z" /></svg>
+                    <span className="truncate">{song.match === 'artist' ? song.artist : song.title}</span>
+                  </button>
+                ))}
               </div>
-            </div>
-          </a>
+            )}
+          </div>
         ))}
       </div>
       )}
+
+      {!loading && news.length < total && (
+        <div className="flex justify-center mt-4 px-4 md:px-0">
+          <button
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+            className="px-6 py-2 rounded border border-[#d00018] text-[#d00018] font-bold uppercase tracking-wider text-sm hover:bg-[#d00018] hover:text-white transition disabled:opacity-50"
+          >
+            {loadingMore ? 'Laden...' : 'Meer nieuws'}
+          </button>
+        </div>
+      )}
     </section>
   );
 });
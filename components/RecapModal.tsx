@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { EditionRecap, RecapSong } from '../types';
+import { fetchEditionRecap } from '../services/recapService';
+
+interface RecapModalProps {
+  year: string;
+  onClose: () => void;
+  onSelectSong: (id: string) => void;
+}
+
+const LIST_LIMIT = 10;
+
+const SongList: React.FC<{
+  title: string;
+  songs: RecapSong[];
+  total?: number;
+  detail: (song: RecapSong) => string;
+  onSelectSong: (id: string) => void;
+}> = ({ title, songs, total, detail, onSelectSong }) => {
+  if (songs.length === 0) return null;
+  const shown = songs.slice(0, LIST_LIMIT);
+  const remaining = (total ?? songs.length) - shown.length;
+
+  return (
+    <section>
+      <h3 className="text-lg font-bold text-[#d00018] mb-2">{title}</h3>
+      <ol className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+        {shown.map(song => (
+          <li key={song.id}>
+            <button
+              onClick={() => onSelectSong(song.id)}
+              className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-gray-50 transition"
+            >
+              <span className="flex-1 min-w-0">
+                <span className="block font-bold text-gray-900 truncate">{song.title}</span>
+                <span className="block text-sm text-gray-500 truncate">{song.artist}</span>
+              </span>
+              <span className="text-sm font-bold text-gray-700 whitespace-nowrap">{detail(song)}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+      {remaining > 0 && (
+        <p className="text-xs text-gray-500 mt-1">en nog {remaining} andere</p>
+      )}
+    </section>
+  );
+};
+
+const RecapModal: React.FC<RecapModalProps> = ({ year, onClose, onSelectSong }) => {
+  const [recap, setRecap] = useState<EditionRecap | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [narrative, setNarrative] = useState<EditionRecap['narrative'] | null>(null);
+  const [loadingNarrative, setLoadingNarrative] = useState(false);
+
+  // Figures first; the written narrative follows in a second request
+  useEffect(() => {
+    let isCancelled = false;
+    setLoading(true);
+    setRecap(null);
+    setNarrative(null);
+
+    fetchEditionRecap(year).then(data => {
+      if (isCancelled) return;
+      setRecap(data);
+      setLoading(false);
+      if (!data) return;
+
+      setLoadingNarrative(true);
+      fetchEditionRecap(year, true).then(withNarrative => {
+        if (isCancelled) return;
+        setNarrative(withNarrative?.narrative ?? null);
+        setLoadingNarrative(false);
+      });
+    });
+
+    return () => { isCancelled = true; };
+  }, [year]);
+
+  const previous = recap?.previousEdition;
+  const maxShare = recap ? Math.max(...recap.decades.map(d => d.share), 1) : 1;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative bg-white w-full max-w-2xl max-h-[90vh] rounded-xl shadow-2xl overflow-hidden flex flex-col animate-fade-in-up">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-900">Jaaroverzicht {year}</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition"
+              aria-label="Sluiten"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 text-gray-700 leading-relaxed space-y-6">
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="w-10 h-10 border-4 border-[#d00018] border-t-transparent rounded-full animate-spin mx-auto"></div>
+            </div>
+          ) : !recap ? (
+            <p>Het jaaroverzicht van {year} kon niet worden geladen.</p>
+          ) : (
+            <>
+              {recap.numberOne && (
+                <button
+                  onClick={() => onSelectSong(recap.numberOne!.id)}
+                  className="w-full text-left bg-[#d00018] text-white rounded-lg p-5 hover:bg-[#b00014] transition"
+                >
+                  <span className="block text-xs font-bold uppercase tracking-wider text-white/80">
+                    {recap.numberOne.isNew ? 'Nieuwe nummer 1' : 'Opnieuw nummer 1'}
+                  </span>
+                  <span className="block text-2xl font-bold">{recap.numberOne.title}</span>
+                  <span className="block text-white/90">{recap.numberOne.artist}</span>
+                  {recap.numberOne.isNew && recap.previousNumberOne && (
+                    <span className="block text-sm text-white/80 mt-2">
+                      Neemt het stokje over van {recap.previousNumberOne.title} ({recap.previousNumberOne.artist})
+                    </span>
+                  )}
+                </button>
+              )}
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {[
+                  { label: 'Nieuwkomers', value: recap.counts.newcomers },
+                  { label: 'Terugkeerders', value: recap.counts.reEntries },
+                  { label: 'Afvallers', value: recap.counts.leavers },
+                  { label: 'Gem. jaar', value: recap.averageReleaseYear ? Math.round(recap.averageReleaseYear) : '-' }
+                ].map(stat => (
+                  <div key={stat.label} className="bg-gray-50 border border-gray-100 rounded-lg p-3 text-center">
+                    <div className="text-2xl font-bold text-gray-900">{stat.value}</div>
+                    <div className="text-xs font-bold uppercase tracking-wider text-gray-500">{stat.label}</div>
+                  </div>
+                ))}
+              </div>
+
+              <section>
+                {loadingNarrative ? (
+                  <div className="animate-pulse space-y-2">
+                    <div className="h-2 bg-gray-200 rounded"></div>
+                    <div className="h-2 bg-gray-200 rounded w-5/6"></div>
+                    <div className="h-2 bg-gray-200 rounded w-4/6"></div>
+                  </div>
+                ) : narrative && (
+                  <>
+                    {narrative.text.split(/\n\s*\n/).map((paragraph, index) => (
+                      <p key={index} className="mb-3">{paragraph}</p>
+                    ))}
+                    {narrative.model && !narrative.fallback && (
+                      <p className="text-[10px] text-gray-400 text-right">Tekst gegenereerd met {narrative.model}</p>
+                    )}
+                  </>
+                )}
+              </section>
+
+              <SongList
+                title="Grootste stijgers"
+                songs={recap.climbers}
+                detail={s => `${s.previousRank} → ${s.rank} (+${s.movement})`}
+                onSelectSong={onSelectSong}
+              />
+              <SongList
+                title="Grootste dalers"
+                songs={recap.fallers}
+                detail={s => `${s.previousRank} → ${s.rank} (${s.movement})`}
+                onSelectSong={onSelectSong}
+              />
+              <SongList
+                title="Hoogste nieuwkomers"
+                songs={recap.newcomers}
+                total={recap.counts.newcomers}
+                detail={s => `#${s.rank}`}
+                onSelectSong={onSelectSong}
+              />
+              <SongList
+                title="Terug in de lijst"
+                songs={recap.reEntries}
+                total={recap.counts.reEntries}
+                detail={s => `#${s.rank}`}
+                onSelectSong={onSelectSong}
+              />
+              <SongList
+                title={`Afvallers (stonden in ${previous})`}
+                songs={recap.leavers}
+                total={recap.counts.leavers}
+                detail={s => `was #${s.previousRank}`}
+                onSelectSong={onSelectSong}
+              />
+
+              {recap.decades.length > 0 && (
+                <section>
+                  <h3 className="text-lg font-bold text-[#d00018] mb-2">Decennia</h3>
+                  <div className="space-y-1">
+                    {recap.decades.map(d => (
+                      <div key={d.decade} className="flex items-center gap-3 text-sm">
+                        <span className="w-14 font-bold text-gray-900">{d.decade}s</span>
+                        <div className="flex-1 bg-gray-100 rounded h-3 overflow-hidden">
+                          <div className="bg-[#d00018] h-3" style={{ width: `${(d.share / maxShare) * 100}%` }}></div>
+                        </div>
+                        <span className="w-14 text-right text-gray-500">{d.share}%</span>
+                      </div>
+                    ))}
+                  </div>
+                  {recap.averageReleaseYear && recap.previousAverageReleaseYear && (
+                    <p className="text-sm text-gray-500 mt-3">
+                      Gemiddeld jaar van uitgave: {recap.averageReleaseYear} (in {previous}: {recap.previousAverageReleaseYear})
+                    </p>
+                  )}
+                </section>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-200 bg-gray-50">
+          <button
+            onClick={onClose}
+            className="w-full bg-[#d00018] text-white px-6 py-3 rounded-lg font-bold hover:bg-[#b00014] transition shadow-lg"
+          >
+            Sluiten
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecapModal;
@@ -3,6 +3,7 @@ import React, { useState, useEffect, useRef, memo, useCallback } from 'react';
 import { SongData } from '../types';
 import { fetchSongMetadata } from '../services/itunesService';
 import AudioPlayer from './AudioPlayer';
+import CoverImage from './CoverImage';
 
 interface SongCardProps {
   song: SongData;
@@ -111,25 +112,20 @@ const SongCard: React.FC<SongCardProps> = memo(({ song, rank, previousRank, onSe
         <div className="flex-1 flex items-center p-3 gap-4 relative overflow-hidden">
                 {/* Image with Play Overlay */}
                 <div className="relative w-16 h-16 md:w-20 md:h-20 shrink-0 bg-gray-200 rounded-sm overflow-hidden group/image">
-                    {isVisible && coverUrl ? (
-                    <img 
-                        src={coverUrl} 
-                        alt={song.title} 
-                        loading="lazy"
-                        decoding="async"
-                        className="w-full h-full object-cover animate-fade-in" 
+                    {isVisible && coverUrl !== undefined ? (
+                    /* iTunes cover, else the worker's artwork, else a placeholder with the rank */
+                    <CoverImage
+                        src={coverUrl}
+                        songId={song.id}
+                        rank={rank}
+                        size="thumb"
+                        alt={song.title}
+                        className="w-full h-full object-cover animate-fade-in"
                     />
                     ) : (
+                        /* Loading State */
                         <div className="w-full h-full flex items-center justify-center text-gray-400">
-                        {coverUrl === undefined ? (
-                            /* Loading State */
                             <div className="w-5 h-5 border-2 border-gray-400 border-t-transparent rounded-full animate-spin"></div>
-                        ) : (
-                            /* Failed / Null State - Vinyl Icon */
-                            <div className="w-full h-full bg-gray-300 flex items-center justify-center">
-                                <svg className="w-8 h-8 text-gray-500 opacity-50" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 14.5c-2.49 0-4.5-2.01-4.5-4.5S9.51 7.5 12 7.5s4.5 2.01 4.5 4.5-2.01 4.5-4.5 4.5zm0-5.5c-.55 0-1 .45-1 1s.45 1 1 1 1-.45 1-1-.45-1-1-1z"/></svg>
-                            </div>
-                        )}
                         </div>
                     )}
                     
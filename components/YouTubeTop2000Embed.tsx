@@ -4,10 +4,12 @@ import { searchYouTubeVideo } from "../services/youtubeService";
 export function YouTubeTop2000Embed({
   artist,
   title,
+  videoId: knownVideoId,
   autoplay = true,
 }: {
   artist: string;
   title: string;
+  videoId?: string | null; // already known from the dataset; skips the search
   autoplay?: boolean;
 }) {
   const [videoId, setVideoId] = useState<string | null>(null);
@@ -18,6 +20,12 @@ export function YouTubeTop2000Embed({
     setLoading(true);
     setVideoId(null);
 
+    if (knownVideoId) {
+      setVideoId(knownVideoId);
+      setLoading(false);
+      return;
+    }
+
     const fetchVideo = async () => {
       // First try to get a specific video ID
       const result = await searchYouTubeVideo(artist, title);
@@ -35,7 +43,7 @@ export function YouTubeTop2000Embed({
     return () => {
       isMounted = false;
     };
-  }, [artist, title]);
+  }, [artist, title, knownVideoId]);
 
   const src = useMemo(() => {
     const origin = typeof window !== 'undefined' ? window.location.origin : '';
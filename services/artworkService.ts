@@ -0,0 +1,12 @@
+const API_BASE = import.meta.env.DEV
+  ? 'http://localhost:8787'
+  : 'https://api.top2000allertijden.nl';
+
+// The source's nearest rendition to ~300px (thumb) or ~600px (large), not a
+// resized image: show it at a fixed size with object-cover
+export type ArtworkSize = 'thumb' | 'large';
+
+// The worker's cover for a song (iTunes, Deezer or the Cover Art Archive);
+// answers 404 when no source has one
+export const artworkUrl = (songId: string, size: ArtworkSize): string =>
+  `${API_BASE}/artwork/${encodeURIComponent(songId)}/${size}`;
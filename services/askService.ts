@@ -0,0 +1,41 @@
+import { SongFilter } from '../utils/songFilter';
+
+const API_BASE = import.meta.env.DEV
+  ? 'http://localhost:8787'
+  : 'https://api.top2000allertijden.nl';
+
+export interface AskResult {
+  question: string;
+  filter: SongFilter;
+  description: string;
+  total: number;
+}
+
+export type AskResponse = { result: AskResult } | { error: string };
+
+/**
+ * Sends a question in plain language to the worker's /ask route, which
+ * translates it into a SongFilter. Errors come back as a Dutch message.
+ */
+export const askTop2000 = async (question: string): Promise<AskResponse> => {
+  try {
+    const response = await fetch(`${API_BASE}/ask?q=${encodeURIComponent(question)}`);
+
+    if (response.status === 422) return { error: 'Deze vraag kon niet worden vertaald naar een filter. Probeer het anders te formuleren.' };
+    if (response.status === 429) return { error: 'Te veel vragen achter elkaar. Probeer het over een minuut opnieuw.' };
+    if (!response.ok) throw new Error(`Ask failed: ${response.status}`);
+
+    const data = await response.json();
+    return {
+      result: {
+        question: data.question,
+        filter: data.filter,
+        description: data.description,
+        total: data.total
+      }
+    };
+  } catch (error) {
+    console.error('Ask error:', error);
+    return { error: 'De vraag kon niet worden verwerkt. Probeer het later opnieuw.' };
+  }
+};
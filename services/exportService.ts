@@ -1,6 +1,8 @@
 import * as XLSX from 'xlsx';
 import { jsPDF } from 'jspdf';
 import { SongData } from '../types';
+import { getKnownMetadata } from './itunesService';
+import { formatDuration } from '../utils/textUtils';
 
 /**
  * Export songs to Excel format
@@ -8,12 +10,18 @@ import { SongData } from '../types';
 export const exportToExcel = (songs: SongData[], selectedYear: string = 'all-time'): void => {
   // Prepare data for Excel
   const excelData = songs.map((song, index) => {
+    const meta = getKnownMetadata(song);
     const row: any = {
       'Rank': selectedYear === 'all-time' ? (song.allTimeRank || index + 1) : (song.rankings[selectedYear] || ''),
       'Artiest': song.artist,
       'Titel': song.title,
       'Jaar': song.releaseYear > 0 ? song.releaseYear : '',
       'Score': song.totalScore || 0,
+      'Album': meta.album || '',
+      'Duur': formatDuration(meta.durationMs),
+      'Genre': meta.genre || '',
+      'Releasedatum': meta.releaseDate ? meta.releaseDate.substring(0, 10) : '',
+      'Apple Music': meta.trackViewUrl || '',
     };
 
     // Add ranking for selected year if not all-time
@@ -35,6 +43,11 @@ export const exportToExcel = (songs: SongData[], selectedYear: string = 'all-tim
     { wch: 40 }, // Titel
     { wch: 8 },  // Jaar
     { wch: 12 }, // Score
+    { wch: 40 }, // Album
+    { wch: 8 },  // Duur
+    { wch: 16 }, // Genre
+    { wch: 12 }, // Releasedatum
+    { wch: 50 }, // Apple Music
   ];
   ws['!cols'] = colWidths;
 
@@ -200,8 +213,8 @@ export const exportForTransfer = (songs: SongData[]): void => {
     // Escape quotes in fields
     const title = song.title.replace(/"/g, '""');
     const artist = song.artist.replace(/"/g, '""');
-    const album = ''; // Not available
-    const isrc = ''; // Not available
+    const album = (getKnownMetadata(song).album || '').replace(/"/g, '""');
+    const isrc = song.isrc || '';
     
     csvRows.push(`"${title}","${artist}","${album}","${isrc}"`);
   });
@@ -1,20 +1,35 @@
 // services/geminiService.ts
-// Fetches song analysis from the Cloudflare Worker, which uses Groq API.
+// Fetches song analysis from the Cloudflare Worker, which asks an LLM (Groq by default).
+// The worker caches each analysis per song and language.
 
-const API_BASE_URL = "https://api.top2000allertijden.nl";
+import { SongAnalysis } from '../types';
+import { parseAnalysisSections } from '../utils/analysisSections';
 
-const getFallbackAnalysis = (artist: string, title: string) => {
-    return `"${title}" van ${artist} is een vaste waarde in de Top 2000. Het nummer roept bij veel luisteraars nostalgische gevoelens op en wordt jaarlijks door duizenden mensen gekozen als een van de beste nummers aller tijden.`;
-};
+const API_BASE_URL = import.meta.env.DEV
+  ? 'http://localhost:8787'
+  : 'https://api.top2000allertijden.nl';
+
+const getFallbackAnalysis = (artist: string, title: string): SongAnalysis => ({
+    summary: `"${title}" van ${artist} is een vaste waarde in de Top 2000. Het nummer roept bij veel luisteraars nostalgische gevoelens op en wordt jaarlijks door duizenden mensen gekozen als een van de beste nummers aller tijden.`,
+    trivia: [],
+    mood: null,
+    era: null,
+    fallback: true
+});
+
+const toAnalysis = (data: Partial<SongAnalysis>, fallback: SongAnalysis): SongAnalysis => data.summary
+  ? { summary: data.summary, trivia: data.trivia || [], mood: data.mood ?? null, era: data.era ?? null, fallback: data.fallback, model: data.model }
+  : fallback;
 
 export const getSongAnalysis = async (
   artist: string,
-  title: string
-): Promise<string> => {
+  title: string,
+  lang: string = 'nl'
+): Promise<SongAnalysis> => {
   const fallback = getFallbackAnalysis(artist, title);
 
   try {
-    const url = `${API_BASE_URL}/analyze?artist=${encodeURIComponent(artist)}&title=${encodeURIComponent(title)}`;
+    const url = `${API_BASE_URL}/analyze?artist=${encodeURIComponent(artist)}&title=${encodeURIComponent(title)}&lang=${encodeURIComponent(lang)}`;
     const response = await fetch(url);
 
     if (!response.ok) {
@@ -22,16 +37,79 @@ export const getSongAnalysis = async (
         return fallback;
     }
 
-    const data: { text?: string, error?: string } = await response.json();
+    const data: Partial<SongAnalysis> & { error?: string } = await response.json();
     
     if (data.error) {
         console.warn("Worker returned error:", data.error);
         return fallback;
     }
 
-    return data.text || fallback;
+    return toAnalysis(data, fallback);
   } catch (error) {
     console.error("Analysis API error:", error);
     return fallback;
   }
 };
+
+/**
+ * Streams the analysis from /analyze/stream (Server-Sent Events). onPartial is
+ * called with the analysis so far every time text arrives; the promise resolves
+ * with the finished analysis. Aborting the signal cancels the stream and
+ * rejects with an AbortError.
+ */
+export const streamSongAnalysis = async (
+  artist: string,
+  title: string,
+  onPartial: (analysis: SongAnalysis) => void,
+  signal?: AbortSignal,
+  lang: string = 'nl'
+): Promise<SongAnalysis> => {
+  const fallback = getFallbackAnalysis(artist, title);
+
+  try {
+    const url = `${API_BASE_URL}/analyze/stream?artist=${encodeURIComponent(artist)}&title=${encodeURIComponent(title)}&lang=${encodeURIComponent(lang)}`;
+    const response = await fetch(url, { signal, headers: { Accept: 'text/event-stream' } });
+
+    if (!response.ok || !response.body) {
+        console.warn(`Worker API error: ${response.status}`);
+        return fallback;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line: "event: name\ndata: {json}"
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const block of events) {
+        const event = block.match(/^event: (.*)$/m)?.[1];
+        const data = JSON.parse(block.match(/^data: (.*)$/m)?.[1] || '{}');
+
+        if (event === 'token') {
+          text += data.text || '';
+          const partial = parseAnalysisSections(text);
+          if (partial.summary) onPartial(partial);
+        } else if (event === 'analysis') {
+          return toAnalysis(data, fallback);
+        } else if (event === 'error') {
+          console.warn("Worker returned error:", data.error);
+          return text ? toAnalysis(parseAnalysisSections(text), fallback) : fallback;
+        }
+      }
+    }
+
+    return text ? toAnalysis(parseAnalysisSections(text), fallback) : fallback;
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') throw error;
+    console.error("Analysis stream error:", error);
+    return fallback;
+  }
+};
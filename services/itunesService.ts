@@ -1,11 +1,39 @@
 
-interface MetadataCacheEntry {
+import { ITunesResponse } from '../types';
+
+export interface MetadataCacheEntry {
     coverUrl: string | null;
     previewUrl: string | null;
+    album: string | null;
+    durationMs: number | null;
+    genre: string | null;
+    releaseDate: string | null;
+    trackViewUrl: string | null;
 }
 
+const EMPTY_METADATA: MetadataCacheEntry = {
+    coverUrl: null,
+    previewUrl: null,
+    album: null,
+    durationMs: null,
+    genre: null,
+    releaseDate: null,
+    trackViewUrl: null
+};
+
+// Worker entries stored before the track details were kept lack those fields
+const toMetadata = (entry: Partial<MetadataCacheEntry>): MetadataCacheEntry => ({
+    coverUrl: entry.coverUrl ?? null,
+    previewUrl: entry.previewUrl ?? null,
+    album: entry.album ?? null,
+    durationMs: entry.durationMs ?? null,
+    genre: entry.genre ?? null,
+    releaseDate: entry.releaseDate ?? null,
+    trackViewUrl: entry.trackViewUrl ?? null
+});
+
 const memoryCache: Map<string, MetadataCacheEntry> = new Map();
-const pendingRequests = new Map<string, Promise<{ coverUrl: string | null; previewUrl: string | null }>>();
+const pendingRequests = new Map<string, Promise<MetadataCacheEntry>>();
 
 // Helper for JSONP requests to bypass CORS
 const fetchJsonp = (url: string): Promise<any> => {
@@ -44,7 +72,63 @@ const fetchJsonp = (url: string): Promise<any> => {
     });
 };
 
-export const fetchSongMetadata = async (artist: string, title: string): Promise<{ coverUrl: string | null; previewUrl: string | null }> => {
+// Worker cache lookups are collected for BATCH_DELAY_MS (the cards that become
+// visible together) and sent as one POST /itunes/batch
+const BATCH_DELAY_MS = 50;
+const MAX_BATCH_SONGS = 50; // worker limit
+
+interface QueuedLookup {
+    artist: string;
+    title: string;
+    resolve: (data: MetadataCacheEntry | null) => void;
+}
+
+let lookupQueue: QueuedLookup[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const flushLookups = async () => {
+    flushTimer = null;
+    const queue = lookupQueue;
+    lookupQueue = [];
+
+    for (let i = 0; i < queue.length; i += MAX_BATCH_SONGS) {
+        const batch = queue.slice(i, i + MAX_BATCH_SONGS);
+        try {
+            const response = await fetch('https://api.top2000allertijden.nl/itunes/batch', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ songs: batch.map(({ artist, title }) => ({ artist, title })) })
+            });
+            if (!response.ok) throw new Error(`Batch lookup failed: ${response.status}`);
+
+            const { found } = await response.json();
+            const byKey = new Map<string, MetadataCacheEntry>(
+                found.map((entry: MetadataCacheEntry & { artist: string; title: string }) => [`${entry.artist}|${entry.title}`, entry])
+            );
+            batch.forEach(lookup => {
+                const entry = byKey.get(`${lookup.artist}|${lookup.title}`);
+                lookup.resolve(entry ? toMetadata(entry) : null);
+            });
+        } catch (e) {
+            console.warn("Worker cache check failed", e);
+            batch.forEach(lookup => lookup.resolve(null));
+        }
+    }
+};
+
+// Resolves with the worker's cached entry, or null on a miss
+const lookupWorkerCache = (artist: string, title: string): Promise<MetadataCacheEntry | null> =>
+    new Promise(resolve => {
+        lookupQueue.push({ artist, title, resolve });
+        if (lookupQueue.length >= MAX_BATCH_SONGS) {
+            if (flushTimer) clearTimeout(flushTimer);
+            flushLookups();
+        } else if (!flushTimer) {
+            flushTimer = setTimeout(flushLookups, BATCH_DELAY_MS);
+        }
+    });
+
+export const fetchSongMetadata = async (artist: string, title: string): Promise<MetadataCacheEntry> => {
   const cacheKey = `${artist}|${title}`.toLowerCase();
   
   if (memoryCache.has(cacheKey)) {
@@ -56,17 +140,12 @@ export const fetchSongMetadata = async (artist: string, title: string): Promise<
   }
 
   const processPromise = (async () => {
-      let data: { coverUrl: string | null; previewUrl: string | null } = { coverUrl: null, previewUrl: null };
+      let data: MetadataCacheEntry = EMPTY_METADATA;
 
-      // 1. Try Worker Cache
-      try {
-          const response = await fetch(`https://api.top2000allertijden.nl/itunes?artist=${encodeURIComponent(artist)}&title=${encodeURIComponent(title)}`);
-          if (response.ok) {
-              data = await response.json();
-              return data;
-          }
-      } catch (e) {
-          console.warn("Worker cache check failed", e);
+      // 1. Try Worker Cache (batched with the other visible cards)
+      const cached = await lookupWorkerCache(artist, title);
+      if (cached) {
+          return cached;
       }
 
       // 2. Fetch from iTunes Client-side (Fallback)
@@ -84,13 +163,18 @@ export const fetchSongMetadata = async (artist: string, title: string): Promise<
               const url = `https://itunes.apple.com/search?term=${encodeURIComponent(q)}&media=music&entity=song&limit=1&country=NL`;
               
               try {
-                  const json = await fetchJsonp(url);
+                  const json: ITunesResponse = await fetchJsonp(url);
                   
                   if (json.results && json.results.length > 0) {
                       const track = json.results[0];
                       data = {
                           coverUrl: track.artworkUrl100 ? track.artworkUrl100.replace('100x100', '600x600') : null,
-                          previewUrl: track.previewUrl
+                          previewUrl: track.previewUrl,
+                          album: track.collectionName ?? null,
+                          durationMs: track.trackTimeMillis ?? null,
+                          genre: track.primaryGenreName ?? null,
+                          releaseDate: track.releaseDate ?? null,
+                          trackViewUrl: track.trackViewUrl ?? null
                       };
 
                       // 3. Cache result in Worker
@@ -101,8 +185,8 @@ export const fetchSongMetadata = async (artist: string, title: string): Promise<
                           body: JSON.stringify({
                               artist,
                               title,
-                              coverUrl: data.coverUrl,
-                              previewUrl: data.previewUrl
+                              ...data,
+                              trackId: track.trackId ?? null
                           })
                       }).catch(err => console.error("Failed to cache in worker", err));
 
@@ -130,12 +214,25 @@ export const fetchSongMetadata = async (artist: string, title: string): Promise<
   return processPromise;
 };
 
+// What is known about a song without a request: the dataset's enriched fields,
+// completed from a lookup (by default the one done in this session, if any)
+export const getKnownMetadata = (
+    song: { artist: string; title: string } & Partial<MetadataCacheEntry>,
+    looked: MetadataCacheEntry = memoryCache.get(`${song.artist}|${song.title}`.toLowerCase()) ?? EMPTY_METADATA
+): MetadataCacheEntry => {
+    return {
+        coverUrl: song.coverUrl ?? looked.coverUrl,
+        previewUrl: song.previewUrl ?? looked.previewUrl,
+        album: song.album ?? looked.album,
+        durationMs: song.durationMs ?? looked.durationMs,
+        genre: song.genre ?? looked.genre,
+        releaseDate: song.releaseDate ?? looked.releaseDate,
+        trackViewUrl: song.trackViewUrl ?? looked.trackViewUrl
+    };
+};
+
+// Lookups started together share one worker batch request
 export const prefetchMetadata = (songs: {artist: string, title: string}[]) => {
     if (!songs || songs.length === 0) return;
-    songs.forEach((s, index) => {
-        // Simple stagger
-        setTimeout(() => {
-            fetchSongMetadata(s.artist, s.title);
-        }, index * 50);
-    });
+    songs.forEach(s => fetchSongMetadata(s.artist, s.title));
 };
@@ -0,0 +1,23 @@
+import { EditionRecap } from '../types';
+
+const API_BASE = import.meta.env.DEV
+  ? 'http://localhost:8787'
+  : 'https://api.top2000allertijden.nl';
+
+/**
+ * Fetches the recap ("Jaaroverzicht") of an edition. With withNarrative the
+ * worker adds a written summary, which can take a few seconds the first time.
+ */
+export const fetchEditionRecap = async (year: string, withNarrative = false): Promise<EditionRecap | null> => {
+  try {
+    const response = await fetch(`${API_BASE}/data/recap/${encodeURIComponent(year)}${withNarrative ? '?narrative=true' : ''}`);
+    if (!response.ok) {
+      console.warn(`Recap API error: ${response.status}`);
+      return null;
+    }
+    return await response.json();
+  } catch (error) {
+    console.error('Recap error:', error);
+    return null;
+  }
+};
@@ -1,20 +1,37 @@
 
+/** A song the worker found in the article's text */
+export interface NewsSongLink {
+  id: string;
+  artist: string;
+  title: string;
+  match: 'title' | 'position' | 'artist'; // 'artist': only the artist is mentioned
+}
+
 export interface NewsItem {
   title: string;
   link: string;
   description: string;
-  pubDate: string;
+  pubDate: string | null; // ISO date
   imageUrl: string | null;
+  source: string;
+  sourceLabel: string;
+  songs?: NewsSongLink[];
+}
+
+export interface NewsPage {
+  items: NewsItem[];
+  total: number;
 }
 
-export const fetchNewsFeed = async (): Promise<NewsItem[]> => {
+export const fetchNewsFeed = async (limit = 3, offset = 0): Promise<NewsPage> => {
   try {
-    const response = await fetch('https://api.top2000allertijden.nl/news');
+    const response = await fetch(`https://api.top2000allertijden.nl/news?limit=${limit}&offset=${offset}`);
     if (response.ok) {
-      return await response.json();
+      const data = await response.json();
+      return { items: data.items, total: data.total };
     }
   } catch (error) {
     console.error("Error fetching news feed:", error);
   }
-  return [];
+  return { items: [], total: 0 };
 };
@@ -4,18 +4,58 @@ import { SongData } from '../types';
 const STORAGE_PREFIX = 'top2000_streaming_';
 const API_BASE = 'https://api.top2000allertijden.nl';
 
+// The Worker sends the user back to this path (year, filters) after login
+const authLoginUrl = (service: 'spotify' | 'youtube'): string =>
+  `${API_BASE}/auth/${service}/login?return=${encodeURIComponent(window.location.pathname + window.location.search)}`;
+
+// Only the short-lived access token is kept in the browser. The refresh token
+// lives in the Worker session (HttpOnly cookie), refresh/logout go through it.
 interface StreamingConfig {
   accessToken?: string;
-  refreshToken?: string;
   expiresAt?: number;
 }
 
-// Spotify OAuth
-export const getSpotifyConfig = (): StreamingConfig | null => {
-  const stored = localStorage.getItem(`${STORAGE_PREFIX}spotify`);
-  return stored ? JSON.parse(stored) : null;
+const readConfig = (service: 'spotify' | 'youtube'): StreamingConfig | null => {
+  const stored = localStorage.getItem(`${STORAGE_PREFIX}${service}`);
+  if (!stored) return null;
+
+  // Drop refresh tokens stored by older versions
+  const { refreshToken, ...config } = JSON.parse(stored);
+  if (refreshToken) localStorage.setItem(`${STORAGE_PREFIX}${service}`, JSON.stringify(config));
+  return config;
 };
 
+const refreshAccessToken = async (service: 'spotify' | 'youtube'): Promise<StreamingConfig> => {
+  const response = await fetch(`${API_BASE}/auth/${service}/refresh`, {
+    method: 'POST',
+    credentials: 'include'
+  });
+
+  if (!response.ok) {
+    throw new Error('Token refresh failed');
+  }
+
+  const data = await response.json();
+  return {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + (data.expires_in * 1000)
+  };
+};
+
+const logout = async (service: 'spotify' | 'youtube'): Promise<void> => {
+  try {
+    await fetch(`${API_BASE}/auth/${service}/logout`, {
+      method: 'POST',
+      credentials: 'include'
+    });
+  } finally {
+    localStorage.removeItem(`${STORAGE_PREFIX}${service}`);
+  }
+};
+
+// Spotify OAuth
+export const getSpotifyConfig = (): StreamingConfig | null => readConfig('spotify');
+
 export const saveSpotifyConfig = (config: Partial<StreamingConfig>): void => {
   const existing = getSpotifyConfig() || {};
   const updated = { ...existing, ...config };
@@ -23,32 +63,17 @@ export const saveSpotifyConfig = (config: Partial<StreamingConfig>): void => {
 };
 
 export const initiateSpotifyAuth = (): void => {
-  window.location.href = `${API_BASE}/auth/spotify/login`;
+  window.location.href = authLoginUrl('spotify');
 };
 
 const refreshSpotifyToken = async (): Promise<string> => {
-  const config = getSpotifyConfig();
-  if (!config?.refreshToken) {
-    throw new Error('Geen refresh token beschikbaar');
-  }
-
-  const response = await fetch(`${API_BASE}/auth/spotify/refresh?refresh_token=${config.refreshToken}`);
-
-  if (!response.ok) {
-    throw new Error('Token refresh failed');
-  }
-
-  const data = await response.json();
-  saveSpotifyConfig({
-    accessToken: data.access_token,
-    expiresAt: Date.now() + (data.expires_in * 1000),
-    // Update refresh token if a new one is returned
-    ...(data.refresh_token && { refreshToken: data.refresh_token })
-  });
-
-  return data.access_token;
+  const config = await refreshAccessToken('spotify');
+  saveSpotifyConfig(config);
+  return config.accessToken!;
 };
 
+export const logoutSpotify = (): Promise<void> => logout('spotify');
+
 const getSpotifyAccessToken = async (): Promise<string> => {
   const config = getSpotifyConfig();
   if (!config?.accessToken) {
@@ -73,7 +98,8 @@ export type SpotifyPlaylistResult = PlaylistResult;
 const searchSpotifyTrack = async (
   token: string,
   artist: string,
-  title: string
+  title: string,
+  isrc?: string | null
 ): Promise<string | null> => {
     // Simplified search strategy (let's keep the multiple queries logic if it was robust, 
     // but the prompt implies we want to rely on the backend more? 
@@ -85,6 +111,8 @@ const searchSpotifyTrack = async (
 
   const cleanString = (str: string) => str.trim().replace(/"/g, '\\"');
   const queries = [
+    // The ISRC finds the recording itself, not a live version or karaoke cover
+    ...(isrc ? [`isrc:${isrc}`] : []),
     `artist:"${cleanString(artist)}" track:"${cleanString(title)}"`,
     `${artist} ${title}`,
     title
@@ -148,7 +176,7 @@ export const createSpotifyPlaylist = async (
       if (signal?.aborted) throw new Error('Cancelled');
       if (onProgress) onProgress(i + 1, songs.length);
       
-      const uri = await searchSpotifyTrack(token, songs[i].artist, songs[i].title);
+      const uri = await searchSpotifyTrack(token, songs[i].artist, songs[i].title, songs[i].isrc);
       if (uri) trackUris.push(uri);
       else failedSongs.push({ title: songs[i].title, artist: songs[i].artist });
     }
@@ -190,10 +218,7 @@ export const createSpotifyPlaylist = async (
 };
 
 // YouTube Music OAuth
-export const getYouTubeConfig = (): StreamingConfig | null => {
-  const stored = localStorage.getItem(`${STORAGE_PREFIX}youtube`);
-  return stored ? JSON.parse(stored) : null;
-};
+export const getYouTubeConfig = (): StreamingConfig | null => readConfig('youtube');
 
 export const saveYouTubeConfig = (config: Partial<StreamingConfig>): void => {
   const existing = getYouTubeConfig() || {};
@@ -202,30 +227,17 @@ export const saveYouTubeConfig = (config: Partial<StreamingConfig>): void => {
 };
 
 export const initiateYouTubeAuth = (): void => {
-  window.location.href = `${API_BASE}/auth/youtube/login`;
+  window.location.href = authLoginUrl('youtube');
 };
 
 const refreshYouTubeToken = async (): Promise<string> => {
-  const config = getYouTubeConfig();
-  if (!config?.refreshToken) {
-    throw new Error('Geen refresh token beschikbaar');
-  }
-
-  const response = await fetch(`${API_BASE}/auth/youtube/refresh?refresh_token=${config.refreshToken}`);
-
-  if (!response.ok) {
-    throw new Error('Token refresh failed');
-  }
-
-  const data = await response.json();
-  saveYouTubeConfig({
-    accessToken: data.access_token,
-    expiresAt: Date.now() + (data.expires_in * 1000),
-  });
-
-  return data.access_token;
+  const config = await refreshAccessToken('youtube');
+  saveYouTubeConfig(config);
+  return config.accessToken!;
 };
 
+export const logoutYouTube = (): Promise<void> => logout('youtube');
+
 const getYouTubeAccessToken = async (): Promise<string> => {
   const config = getYouTubeConfig();
   if (!config?.accessToken) {
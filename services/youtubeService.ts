@@ -16,7 +16,8 @@ export const searchYouTubeVideo = async (artist: string, title: string): Promise
     );
 
     if (!response.ok) {
-      if (response.status === 404) return null;
+      // 429/503: rate limited or the daily YouTube budget is spent
+      if (response.status === 404 || response.status === 429 || response.status === 503) return null;
       throw new Error('Failed to search YouTube video');
     }
 
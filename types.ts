@@ -7,16 +7,64 @@ export interface SongData {
   id: string;
   artist: string;
   title: string;
-  releaseYear: number;
+  releaseYear: number; // 0 = unknown
+  releaseYearSource?: 'musicbrainz' | 'itunes'; // set when the worker filled in a year Wikipedia lacks
+  releaseYearConfidence?: 'high' | 'medium' | 'low';
   rankings: RankingHistory;
   // Dynamic fields fetched from iTunes/Calculated
   totalScore?: number;
   coverUrl?: string | null; // null = tried to fetch but failed/not found. undefined = not yet fetched.
   previewUrl?: string | null;
+  album?: string | null;
+  durationMs?: number | null;
+  genre?: string | null; // iTunes primary genre
+  releaseDate?: string | null; // ISO date of the iTunes release
+  trackViewUrl?: string | null; // Apple Music / iTunes Store page
+  isrc?: string | null; // recording code for playlist transfers (worker: override, Spotify or Deezer)
+  youtubeId?: string | null; // Top 2000 a gogo video, resolved by the worker's enrichment job
   allTimeRank?: number;
   previousAllTimeRank?: number; // Calculated based on score excluding the latest year
 }
 
+// Structured song analysis from the worker's /analyze route
+export interface SongAnalysis {
+  summary: string;
+  trivia: string[];
+  mood: string | null;
+  era: string | null;
+  fallback?: boolean; // true when the generic text is shown instead of a generated analysis
+  model?: string; // model that generated the analysis
+}
+
+// Song entry in an edition recap (/data/recap/:year)
+export interface RecapSong {
+  id: string;
+  artist: string;
+  title: string;
+  releaseYear: number | null;
+  rank: number | null;
+  previousRank: number | null;
+  movement?: number; // climbers/fallers: positions gained (negative = dropped)
+  isNew?: boolean; // number one: different from last edition's number one
+}
+
+export interface EditionRecap {
+  edition: string;
+  previousEdition: string | null;
+  counts: { songs: number; newcomers: number; reEntries: number; leavers: number };
+  numberOne: RecapSong | null;
+  previousNumberOne: RecapSong | null;
+  newcomers: RecapSong[];
+  reEntries: RecapSong[];
+  leavers: RecapSong[];
+  climbers: RecapSong[];
+  fallers: RecapSong[];
+  averageReleaseYear: number | null;
+  previousAverageReleaseYear: number | null;
+  decades: { decade: string; count: number; share: number }[];
+  narrative?: { text: string; model?: string; fallback?: boolean };
+}
+
 export interface ChartDataPoint {
   year: string;
   rank: number | null;
@@ -28,5 +76,11 @@ export interface ITunesResponse {
     previewUrl: string;
     artistName: string;
     trackName: string;
+    trackId?: number;
+    collectionName?: string;
+    trackTimeMillis?: number;
+    primaryGenreName?: string;
+    releaseDate?: string;
+    trackViewUrl?: string;
   }[];
 }
@@ -0,0 +1,79 @@
+import { SongAnalysis } from '../types';
+
+/**
+ * Song analyses are generated as plain text with labelled sections:
+ *
+ *   SUMMARY: ...
+ *   TRIVIA:
+ *   - ...
+ *   MOOD: ...
+ *   ERA: ...
+ *
+ * Unlike JSON, this can be split into its parts while it is still streaming.
+ * Shared by the Worker (to cache the finished analysis) and the browser (to
+ * render a partial analysis as it arrives).
+ */
+
+type Section = 'summary' | 'trivia' | 'mood' | 'era';
+
+const SECTION_LABELS: Record<string, Section> = {
+  SUMMARY: 'summary',
+  TRIVIA: 'trivia',
+  MOOD: 'mood',
+  ERA: 'era'
+};
+
+export const MAX_TRIVIA = 3;
+
+// "SUMMARY: text", also with markdown emphasis ("**Summary:** text")
+const SECTION_LINE = /^\s*[*_#]*\s*(SUMMARY|TRIVIA|MOOD|ERA)\s*[*_]*\s*:\s*[*_]*\s*(.*)$/i;
+const LIST_ITEM = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+const clean = (text: string): string | null => {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  return trimmed ? trimmed : null;
+};
+
+/**
+ * Parses (possibly incomplete) sectioned text. Text before the first label is
+ * treated as summary, so an answer that ignores the format still shows up.
+ */
+export const parseAnalysisSections = (text: string): Omit<SongAnalysis, 'fallback'> => {
+  const parts: Record<Section, string[]> = { summary: [], trivia: [], mood: [], era: [] };
+  let current: Section = 'summary';
+
+  (text || '').split('\n').forEach(line => {
+    const match = line.match(SECTION_LINE);
+    if (match) {
+      current = SECTION_LABELS[match[1].toUpperCase()];
+      if (match[2].trim()) parts[current].push(match[2]);
+      return;
+    }
+    if (!line.trim()) return;
+
+    if (current === 'trivia' && !LIST_ITEM.test(line) && parts.trivia.length > 0) {
+      // Continuation of the previous fact
+      parts.trivia[parts.trivia.length - 1] += ` ${line}`;
+    } else {
+      parts[current].push(line);
+    }
+  });
+
+  return {
+    summary: clean(parts.summary.join(' ')) || '',
+    trivia: parts.trivia
+      .map(item => clean(item.replace(LIST_ITEM, '')))
+      .filter((item): item is string => Boolean(item))
+      .slice(0, MAX_TRIVIA),
+    mood: clean(parts.mood.join(' ')),
+    era: clean(parts.era.join(' '))
+  };
+};
+
+/** Writes an analysis back in the sectioned format (used for template answers). */
+export const formatAnalysisSections = (analysis: Omit<SongAnalysis, 'fallback'>): string => [
+  `SUMMARY: ${analysis.summary}`,
+  ...(analysis.trivia.length > 0 ? ['TRIVIA:', ...analysis.trivia.map(fact => `- ${fact}`)] : []),
+  ...(analysis.mood ? [`MOOD: ${analysis.mood}`] : []),
+  ...(analysis.era ? [`ERA: ${analysis.era}`] : [])
+].join('\n');
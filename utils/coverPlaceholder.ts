@@ -0,0 +1,23 @@
+/**
+ * Generated cover for songs without artwork: the list position on the NPO
+ * red, as an SVG data URI, so it needs no request and works offline.
+ */
+export const coverPlaceholder = (rank?: number | null): string => {
+  const label = rank && rank > 0 ? `#${rank}` : 'TOP 2000';
+  // Four-digit ranks need a smaller font to fit
+  const fontSize = label.length > 4 ? 40 : 56;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="300" height="300" viewBox="0 0 300 300">` +
+    `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">` +
+    `<stop offset="0" stop-color="#d00018"/><stop offset="1" stop-color="#7a000e"/>` +
+    `</linearGradient></defs>` +
+    `<rect width="300" height="300" fill="url(#g)"/>` +
+    `<circle cx="150" cy="150" r="110" fill="none" stroke="#fff" stroke-opacity="0.12" stroke-width="24"/>` +
+    `<text x="150" y="${150 + fontSize / 3}" font-family="Arial, sans-serif" font-weight="bold" font-size="${fontSize}" fill="#fff" text-anchor="middle">${label}</text>` +
+    (rank && rank > 0
+      ? `<text x="150" y="250" font-family="Arial, sans-serif" font-weight="bold" font-size="18" fill="#fff" fill-opacity="0.7" text-anchor="middle" letter-spacing="3">TOP 2000</text>`
+      : '') +
+    `</svg>`;
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
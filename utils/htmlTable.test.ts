@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { parseHtmlTables, cellText, decodeEntities } from './htmlTable';
+
+// Cell texts of a grid, '' for empty slots
+const texts = (html: string, table = 0) =>
+  parseHtmlTables(html)[table].rows.map(row => row.map(cell => cell ? cellText(cell.html) : ''));
+
+describe('parseHtmlTables', () => {
+  it('repeats a rowspan cell in every row it covers', () => {
+    const html = '<table><tr><td rowspan="2">A</td><td>1</td></tr><tr><td>2</td></tr></table>';
+    expect(texts(html)).toEqual([['A', '1'], ['A', '2']]);
+  });
+
+  it('repeats a colspan cell in every column it covers', () => {
+    const html = '<table><tr><td colspan="3">-</td><td>4</td></tr><tr><td>1</td><td>2</td><td>3</td><td>4</td></tr></table>';
+    expect(texts(html)).toEqual([['-', '-', '-', '4'], ['1', '2', '3', '4']]);
+  });
+
+  it('places cells after a rowspan from the row above', () => {
+    const html = '<table>' +
+      '<tr><th rowspan="2">Titel</th><th colspan="2">Noteringen</th></tr>' +
+      '<tr><th>1999</th><th>2000</th></tr>' +
+      '<tr><td>Avond</td><td>1</td><td>2</td></tr>' +
+      '</table>';
+    expect(texts(html)).toEqual([['Titel', 'Noteringen', 'Noteringen'], ['Titel', '1999', '2000'], ['Avond', '1', '2']]);
+  });
+
+  it('fills short rows with null', () => {
+    const grid = parseHtmlTables('<table><tr><td>a</td><td>b</td></tr><tr><td>c</td></tr></table>')[0];
+    expect(grid.columnCount).toBe(2);
+    expect(grid.rows[1][1]).toBeNull();
+  });
+
+  it('keeps nested tables apart, in order of their opening tag', () => {
+    const html = '<table><tr><td>outer<table><tr><td>inner</td></tr></table></td><td>x</td></tr></table>';
+    const grids = parseHtmlTables(html);
+    expect(grids).toHaveLength(2);
+    expect(grids[0].columnCount).toBe(2);
+    expect(cellText(grids[1].rows[0][0]!.html)).toBe('inner');
+  });
+
+  it('handles unclosed cells and truncated tables', () => {
+    expect(texts('<table><tr><td>a<td>b<tr><td>c<td>d')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('ignores tables in comments and caps absurd spans', () => {
+    const grids = parseHtmlTables('<!-- <table><tr><td>x</td></tr></table> --><table><tr><td colspan="99999">a</td></tr></table>');
+    expect(grids).toHaveLength(1);
+    expect(grids[0].columnCount).toBe(1000);
+  });
+});
+
+describe('cellText', () => {
+  it('drops references, sort keys and tags', () => {
+    expect(cellText('<span class="sortkey">Groot, </span><a href="#">Boudewijn de Groot</a><sup class="reference">[1]</sup>'))
+      .toBe('Boudewijn de Groot');
+  });
+
+  it('decodes entities and normalises whitespace', () => {
+    expect(cellText('Simon&nbsp;&amp;&#160;Garfunkel<br/>\n &#x2013; live')).toBe('Simon & Garfunkel – live');
+  });
+});
+
+describe('decodeEntities', () => {
+  it('leaves unknown entities alone', () => {
+    expect(decodeEntities('&foo; &lt;b&gt;')).toBe('&foo; <b>');
+  });
+});
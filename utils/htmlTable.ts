@@ -0,0 +1,204 @@
+/**
+ * DOM-less HTML table parser: works in the Worker (no DOMParser available)
+ * as well as in the browser. Builds a real cell grid, so a cell spanning several rows
+ * or columns occupies every slot it covers and column indexes line up.
+ */
+
+export interface TableCell {
+  html: string;       // inner HTML of the cell
+  header: boolean;    // <th> instead of <td>
+  rowSpan: number;
+  colSpan: number;
+}
+
+export interface TableGrid {
+  // rows[r][c] is the cell covering that slot (spanned cells repeat), or null
+  rows: (TableCell | null)[][];
+  columnCount: number;
+}
+
+interface RawRow {
+  cells: TableCell[];
+}
+
+interface TableState {
+  rows: RawRow[];
+  row: RawRow | null;
+  cell: TableCell | null;
+}
+
+const MAX_SPAN = 1000;
+
+const NAMED_ENTITIES: { [name: string]: string } = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  shy: '', zwj: '', zwnj: ''
+};
+
+/**
+ * Decodes HTML entities without relying on the DOM.
+ */
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.substring(2), 16)
+        : parseInt(entity.substring(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    const named = NAMED_ENTITIES[entity.toLowerCase()];
+    return named !== undefined ? named : match;
+  });
+
+/**
+ * Plain text of a cell: drops references, sort keys, styles and scripts,
+ * strips the remaining tags and normalises invisible whitespace.
+ */
+export const cellText = (html: string): string => {
+  const cleaned = html
+    .replace(/<sup[^>]*>[\s\S]*?<\/sup>/gi, '')
+    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+    .replace(/<span[^>]*class="[^"]*\bsortkey\b[^"]*"[^>]*>[\s\S]*?<\/span>/gi, '')
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(cleaned)
+    .replace(/[\u00AD\u200B\uFEFF]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const readSpan = (attributes: string, name: string): number => {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']?(\\d+)`, 'i'));
+  const value = match ? parseInt(match[1], 10) : 1;
+  return isNaN(value) || value < 1 ? 1 : Math.min(value, MAX_SPAN);
+};
+
+// Places the raw rows into a grid, honouring rowspan/colspan
+const buildGrid = (rawRows: RawRow[]): TableGrid => {
+  const rows: (TableCell | null)[][] = rawRows.map(() => []);
+  let columnCount = 0;
+
+  rawRows.forEach((rawRow, r) => {
+    let c = 0;
+    rawRow.cells.forEach(cell => {
+      while (rows[r][c]) c++;
+      const lastRow = Math.min(r + cell.rowSpan, rawRows.length);
+      for (let rr = r; rr < lastRow; rr++) {
+        for (let cc = c; cc < c + cell.colSpan; cc++) {
+          rows[rr][cc] = cell;
+        }
+      }
+      c += cell.colSpan;
+      columnCount = Math.max(columnCount, c);
+    });
+  });
+
+  // Fill holes left by short rows
+  rows.forEach(row => {
+    for (let c = 0; c < columnCount; c++) {
+      if (!row[c]) row[c] = null;
+    }
+  });
+
+  return { rows, columnCount };
+};
+
+/**
+ * Parses every <table> in the HTML (nested tables included, in document order
+ * of their opening tag) into cell grids.
+ */
+export const parseHtmlTables = (html: string): TableGrid[] => {
+  const source = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '');
+
+  const finished: { order: number; grid: TableGrid }[] = [];
+  const stack: (TableState & { order: number })[] = [];
+  let opened = 0;
+
+  const closeCell = (table: TableState) => {
+    table.cell = null;
+  };
+  const closeRow = (table: TableState) => {
+    closeCell(table);
+    if (table.row) table.rows.push(table.row);
+    table.row = null;
+  };
+  const append = (text: string) => {
+    // Content belongs to the open cell of every enclosing table
+    stack.forEach(table => {
+      if (table.cell) table.cell.html += text;
+    });
+  };
+
+  const tagRegex = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagRegex.exec(source)) !== null) {
+    append(source.substring(lastIndex, match.index));
+    lastIndex = tagRegex.lastIndex;
+
+    const closing = match[1] === '/';
+    const tag = match[2].toLowerCase();
+    const attributes = match[3];
+    const current = stack[stack.length - 1];
+
+    if (tag === 'table') {
+      if (!closing) {
+        append(match[0]);
+        stack.push({ rows: [], row: null, cell: null, order: opened++ });
+      } else if (current) {
+        closeRow(current);
+        stack.pop();
+        finished.push({ order: current.order, grid: buildGrid(current.rows) });
+        append(match[0]);
+      }
+      continue;
+    }
+
+    if (!current) continue;
+
+    if (tag === 'tr') {
+      closeRow(current);
+      if (!closing) current.row = { cells: [] };
+      continue;
+    }
+
+    if (tag === 'td' || tag === 'th') {
+      closeCell(current);
+      if (!closing) {
+        // Cells outside a <tr> start an implicit row
+        if (!current.row) current.row = { cells: [] };
+        current.cell = {
+          html: '',
+          header: tag === 'th',
+          rowSpan: readSpan(attributes, 'rowspan'),
+          colSpan: readSpan(attributes, 'colspan')
+        };
+        current.row.cells.push(current.cell);
+      }
+      continue;
+    }
+
+    if (tag === 'thead' || tag === 'tbody' || tag === 'tfoot') {
+      closeRow(current);
+      continue;
+    }
+
+    append(match[0]);
+  }
+
+  append(source.substring(lastIndex));
+
+  // Unterminated tables (truncated HTML)
+  while (stack.length > 0) {
+    const table = stack.pop()!;
+    closeRow(table);
+    finished.push({ order: table.order, grid: buildGrid(table.rows) });
+  }
+
+  return finished.sort((a, b) => a.order - b.order).map(t => t.grid);
+};
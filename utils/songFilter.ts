@@ -0,0 +1,198 @@
+import { SongData } from '../types';
+
+/**
+ * Structured filter over SongData, produced by the worker's /ask route from a
+ * question in plain language. Shared by the Worker (to validate the LLM answer
+ * and apply it server-side) and the browser (to apply it in the song list and
+ * to restore it from the ?filter= URL parameter).
+ *
+ * Rank conditions apply to `edition` when it is set, otherwise to any edition
+ * ("ever in the top 10").
+ */
+export interface SongFilter {
+  artist?: string;          // case-insensitive substring
+  title?: string;           // case-insensitive substring
+  releaseYearFrom?: number;
+  releaseYearTo?: number;
+  edition?: string;         // e.g. "2023"
+  rankMin?: number;         // best position, 1 = highest
+  rankMax?: number;
+  minEditions?: number;     // number of editions the song was in
+  maxEditions?: number;
+  allTimeRankMax?: number;
+}
+
+const TEXT_FIELDS = ['artist', 'title'] as const;
+
+const NUMBER_FIELDS: Record<string, [number, number]> = {
+  releaseYearFrom: [1000, 2100],
+  releaseYearTo: [1000, 2100],
+  rankMin: [1, 2000],
+  rankMax: [1, 2000],
+  minEditions: [0, 200],
+  maxEditions: [0, 200],
+  allTimeRankMax: [1, 100000]
+};
+
+// Field order for the URL form and descriptions
+export const SONG_FILTER_FIELDS: (keyof SongFilter)[] = [
+  'artist', 'title', 'releaseYearFrom', 'releaseYearTo', 'edition',
+  'rankMin', 'rankMax', 'minEditions', 'maxEditions', 'allTimeRankMax'
+];
+
+const MAX_TEXT_LENGTH = 100;
+
+const toInteger = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isInteger(value)) return value;
+  if (typeof value === 'string' && /^\d+$/.test(value.trim())) return parseInt(value.trim());
+  return null;
+};
+
+/**
+ * Checks an untrusted filter (LLM output or URL) field by field. Unknown
+ * fields, wrong types, out-of-range values and editions that do not exist are
+ * reported as errors; null and empty values are ignored.
+ */
+export const validateSongFilter = (
+  input: unknown,
+  editions: string[]
+): { filter: SongFilter; errors: string[] } => {
+  const filter: SongFilter = {};
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { filter, errors: ['Filter must be an object'] };
+  }
+
+  Object.entries(input as Record<string, unknown>).forEach(([key, value]) => {
+    if (value === null || value === undefined || value === '') return;
+
+    if ((TEXT_FIELDS as readonly string[]).includes(key)) {
+      if (typeof value !== 'string' || value.trim().length > MAX_TEXT_LENGTH) {
+        errors.push(`${key} must be a text of at most ${MAX_TEXT_LENGTH} characters`);
+      } else {
+        filter[key as 'artist' | 'title'] = value.trim();
+      }
+    } else if (key in NUMBER_FIELDS) {
+      const number = toInteger(value);
+      const [min, max] = NUMBER_FIELDS[key];
+      if (number === null || number < min || number > max) {
+        errors.push(`${key} must be a whole number from ${min} to ${max}`);
+      } else {
+        (filter as Record<string, number>)[key] = number;
+      }
+    } else if (key === 'edition') {
+      const edition = String(value).trim();
+      if (!editions.includes(edition)) {
+        const sorted = [...editions].sort();
+        errors.push(`edition must be one of the editions (${sorted[0]} to ${sorted[sorted.length - 1]})`);
+      } else {
+        filter.edition = edition;
+      }
+    } else {
+      errors.push(`Unknown field ${key}`);
+    }
+  });
+
+  const pairs: [keyof SongFilter, keyof SongFilter][] = [
+    ['releaseYearFrom', 'releaseYearTo'], ['rankMin', 'rankMax'], ['minEditions', 'maxEditions']
+  ];
+  pairs.forEach(([low, high]) => {
+    if (filter[low] !== undefined && filter[high] !== undefined && (filter[low] as number) > (filter[high] as number)) {
+      errors.push(`${low} must not be greater than ${high}`);
+    }
+  });
+
+  return { filter, errors };
+};
+
+export const isEmptySongFilter = (filter: SongFilter | null | undefined): boolean =>
+  !filter || Object.keys(filter).length === 0;
+
+const inRange = (value: number | null | undefined, min?: number, max?: number): boolean =>
+  value !== null && value !== undefined &&
+  (min === undefined || value >= min) &&
+  (max === undefined || value <= max);
+
+export const matchesSongFilter = (song: SongData, filter: SongFilter): boolean => {
+  if (filter.artist && !song.artist.toLowerCase().includes(filter.artist.toLowerCase())) return false;
+  if (filter.title && !song.title.toLowerCase().includes(filter.title.toLowerCase())) return false;
+
+  if (filter.releaseYearFrom !== undefined || filter.releaseYearTo !== undefined) {
+    if (!song.releaseYear || !inRange(song.releaseYear, filter.releaseYearFrom, filter.releaseYearTo)) return false;
+  }
+
+  const ranks = Object.values(song.rankings || {}).filter((r): r is number => r !== null && r !== undefined);
+
+  if (filter.edition) {
+    const rank = song.rankings?.[filter.edition];
+    if (!inRange(rank, filter.rankMin, filter.rankMax)) return false;
+  } else if (filter.rankMin !== undefined || filter.rankMax !== undefined) {
+    if (!ranks.some(rank => inRange(rank, filter.rankMin, filter.rankMax))) return false;
+  }
+
+  if (filter.minEditions !== undefined && ranks.length < filter.minEditions) return false;
+  if (filter.maxEditions !== undefined && ranks.length > filter.maxEditions) return false;
+
+  if (filter.allTimeRankMax !== undefined && !inRange(song.allTimeRank, 1, filter.allTimeRankMax)) return false;
+
+  return true;
+};
+
+export const applySongFilter = <T extends SongData>(songs: T[], filter: SongFilter): T[] =>
+  isEmptySongFilter(filter) ? songs : songs.filter(song => matchesSongFilter(song, filter));
+
+/** URL form: "releaseYearFrom:1985;releaseYearTo:1985;rankMax:10" */
+export const serializeSongFilter = (filter: SongFilter): string =>
+  SONG_FILTER_FIELDS
+    .filter(key => filter[key] !== undefined)
+    .map(key => `${key}:${encodeURIComponent(String(filter[key]))}`)
+    .join(';');
+
+/** Parses the URL form; the result still has to go through validateSongFilter. */
+export const parseSongFilterParam = (param: string): Record<string, string> => {
+  const raw: Record<string, string> = {};
+  param.split(';').forEach(part => {
+    const separator = part.indexOf(':');
+    if (separator <= 0) return;
+    try {
+      raw[part.substring(0, separator)] = decodeURIComponent(part.substring(separator + 1));
+    } catch (e) {
+      // Malformed escape; leave the field out
+    }
+  });
+  return raw;
+};
+
+const rankText = (min?: number, max?: number): string => {
+  if (min !== undefined && max !== undefined) return min === max ? `op plek ${min}` : `op plek ${min}-${max}`;
+  if (max !== undefined) return max === 1 ? 'op 1' : `in de top ${max}`;
+  return `op plek ${min} of lager`;
+};
+
+/** Short Dutch description for the active filter chip. */
+export const describeSongFilter = (filter: SongFilter): string => {
+  const parts: string[] = [];
+
+  if (filter.artist) parts.push(`artiest "${filter.artist}"`);
+  if (filter.title) parts.push(`titel "${filter.title}"`);
+
+  const { releaseYearFrom: from, releaseYearTo: to } = filter;
+  if (from !== undefined && to !== undefined) parts.push(from === to ? `uit ${from}` : `uit ${from}-${to}`);
+  else if (from !== undefined) parts.push(`uit ${from} of later`);
+  else if (to !== undefined) parts.push(`uit ${to} of eerder`);
+
+  const hasRank = filter.rankMin !== undefined || filter.rankMax !== undefined;
+  if (filter.edition) parts.push(hasRank ? `${rankText(filter.rankMin, filter.rankMax)} in ${filter.edition}` : `in de lijst van ${filter.edition}`);
+  else if (hasRank) parts.push(`ooit ${rankText(filter.rankMin, filter.rankMax)}`);
+
+  if (filter.minEditions !== undefined && filter.minEditions === filter.maxEditions) parts.push(`${filter.minEditions} edities`);
+  else {
+    if (filter.minEditions !== undefined) parts.push(`minstens ${filter.minEditions} edities`);
+    if (filter.maxEditions !== undefined) parts.push(`hoogstens ${filter.maxEditions} edities`);
+  }
+
+  if (filter.allTimeRankMax !== undefined) parts.push(`allertijden top ${filter.allTimeRankMax}`);
+
+  return parts.join(' · ');
+};
@@ -39,3 +39,12 @@ export const cleanSongText = (text: string): string => {
     
     return cleaned;
 };
+
+/**
+ * Formats a track duration as minutes and seconds ("3:45"); empty when unknown
+ */
+export const formatDuration = (durationMs: number | null | undefined): string => {
+    if (!durationMs) return '';
+    const seconds = Math.round(durationMs / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { parseTop2000Table } from './top2000Table';
+
+// Trimmed copies of the Wikipedia page, one per table layout it has had
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+
+const find = (songs: ReturnType<typeof parseTop2000Table>, title: string) => songs.find(song => song.title === title)!;
+
+describe('parseTop2000Table', () => {
+  describe('current layout (two header rows, \'99 … \'24)', () => {
+    const songs = parseTop2000Table(fixture('top2000-2024.html'));
+
+    it('finds every song and skips the repeated header row', () => {
+      expect(songs.map(song => song.title)).toEqual([
+        'Bohemian Rhapsody', 'Hotel California', 'Take It Easy', 'Avond', 'Fix You', 'Een nieuw nummer'
+      ]);
+    });
+
+    it('maps the edition columns under "Noteringen"', () => {
+      const queen = find(songs, 'Bohemian Rhapsody');
+      expect(Object.keys(queen.rankings)).toHaveLength(26);
+      expect(queen.rankings['1999']).toBe(1);
+      expect(queen.rankings['2024']).toBe(1);
+      expect(queen.artist).toBe('Queen');
+      expect(queen.releaseYear).toBe(1975);
+    });
+
+    it('carries a rowspan artist to the next row', () => {
+      expect(find(songs, 'Take It Easy').artist).toBe('Eagles');
+      expect(find(songs, 'Take It Easy').releaseYear).toBe(1972);
+    });
+
+    it('keeps columns aligned after a colspan cell', () => {
+      const avond = find(songs, 'Avond');
+      expect(avond.rankings['1999']).toBeNull();
+      expect(avond.rankings['2001']).toBeNull();
+      expect(avond.rankings['2002']).toBe(100);
+    });
+
+    it('reads "1.500" as 1500 and "-" as not listed', () => {
+      const song = find(songs, 'Take It Easy');
+      expect(song.rankings['2003']).toBeNull();
+      expect(song.rankings['2004']).toBe(1500);
+    });
+
+    it('gives songs without a usable year releaseYear 0', () => {
+      expect(find(songs, 'Fix You').releaseYear).toBe(0);
+    });
+  });
+
+  describe('2010s layout (one header row, full years, artist first)', () => {
+    const songs = parseTop2000Table(fixture('top2000-2015.html'));
+
+    it('finds the columns by their headers', () => {
+      expect(songs).toHaveLength(6);
+      const queen = find(songs, 'Bohemian Rhapsody');
+      expect(queen.artist).toBe('Queen');
+      expect(queen.releaseYear).toBe(1975);
+      expect(Object.keys(queen.rankings)).toEqual(Array.from({ length: 17 }, (_, i) => `${1999 + i}`));
+    });
+
+    it('reads empty cells as not listed', () => {
+      const blof = find(songs, 'Zoutelande');
+      expect(blof.artist).toBe('Bløf');
+      expect(blof.releaseYear).toBe(0);
+      expect(blof.rankings['2014']).toBeNull();
+      expect(blof.rankings['2015']).toBe(999);
+    });
+  });
+
+  describe('early layout (no <th>, unclosed cells)', () => {
+    const songs = parseTop2000Table(fixture('top2000-2020.html'));
+
+    it('uses the first row as header', () => {
+      expect(songs).toHaveLength(6);
+      const song = find(songs, 'Imagine');
+      expect(song.artist).toBe('John Lennon');
+      expect(song.releaseYear).toBe(1971);
+      expect(song.rankings['1999']).toBe(5);
+      expect(song.rankings['2020']).toBe(5);
+    });
+  });
+
+  it('returns no songs when there is no Top 2000 table', () => {
+    expect(parseTop2000Table('<table><tr><td>a</td></tr></table>')).toEqual([]);
+  });
+});
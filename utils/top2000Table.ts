@@ -0,0 +1,140 @@
+import { SongData, RankingHistory } from '../types';
+import { parseHtmlTables, cellText, TableGrid } from './htmlTable';
+
+/**
+ * Maps the Wikipedia "Lijst van Radio 2-Top 2000's" page HTML to songs, for
+ * the Worker scraper. Fixture tests: top2000Table.test.ts.
+ */
+
+export interface Top2000Columns {
+  artistIdx: number;
+  titleIdx: number;
+  releaseYearIdx: number;
+  yearColumnMap: { [colIndex: number]: string };
+  headerRowIndex: number;
+}
+
+// Wikipedia headers can be "1999", "'99", "’99", "2000"
+const parseEditionYear = (text: string): string | null => {
+  const yearMatch = text.match(/(?:'|’|^)?(\d{2,4})\b/);
+  if (!yearMatch) return null;
+
+  let y = parseInt(yearMatch[1]);
+  if (y < 100) y = y >= 90 ? 1900 + y : 2000 + y;
+  return y >= 1999 && y <= 2030 ? y.toString() : null;
+};
+
+/**
+ * The Top 2000 table is the one with the most columns
+ * (Artist, Title, Release, + one column per edition).
+ */
+export const findTop2000Table = (tables: TableGrid[]): TableGrid | null => {
+  let target: TableGrid | null = null;
+  tables.forEach(table => {
+    if (table.rows.length < 5) return;
+    if (table.columnCount > 20 && (!target || table.columnCount > target.columnCount)) {
+      target = table;
+    }
+  });
+  return target;
+};
+
+/**
+ * Detects the column layout from the header rows. Because spanned header
+ * cells fill every slot they cover, a two-row header ("Noteringen" over the
+ * edition years) maps onto the same indexes as the data rows.
+ */
+export const detectTop2000Columns = (table: TableGrid): Top2000Columns => {
+  const yearColumnMap: { [colIndex: number]: string } = {};
+  let artistIdx = -1;
+  let titleIdx = -1;
+  let releaseYearIdx = -1;
+  let headerRowIndex = 0;
+
+  for (let r = 0; r < Math.min(table.rows.length, 5); r++) {
+    table.rows[r].forEach((cell, idx) => {
+      // Only header cells (or the first row, for tables without <th>)
+      if (!cell || (!cell.header && r > 0)) return;
+      const text = cellText(cell.html).toLowerCase();
+
+      if (text.includes('artiest')) artistIdx = idx;
+      if (text.includes('titel') || text === 'nummer') titleIdx = idx;
+      if (text === 'jaar') releaseYearIdx = idx;
+
+      const year = parseEditionYear(text);
+      if (year) yearColumnMap[idx] = year;
+    });
+
+    if (Object.keys(yearColumnMap).length > 5) {
+      headerRowIndex = r;
+      break;
+    }
+  }
+
+  // Fallbacks if detection failed (Standard Wikipedia layout)
+  if (artistIdx === -1) artistIdx = 2;
+  if (titleIdx === -1) titleIdx = 1;
+
+  return { artistIdx, titleIdx, releaseYearIdx, yearColumnMap, headerRowIndex };
+};
+
+export const parseTop2000Table = (html: string): SongData[] => {
+  const table = findTop2000Table(parseHtmlTables(html));
+  if (!table) {
+    console.error("No suitable table found");
+    return [];
+  }
+
+  const { artistIdx, titleIdx, releaseYearIdx, yearColumnMap, headerRowIndex } = detectTop2000Columns(table);
+  const songs: SongData[] = [];
+
+  for (let i = headerRowIndex + 1; i < table.rows.length; i++) {
+    const row = table.rows[i];
+
+    // Repeated header rows
+    if (row.every(cell => !cell || cell.header)) continue;
+
+    const text = (idx: number) => row[idx] ? cellText(row[idx]!.html) : '';
+    const artist = text(artistIdx);
+    const title = text(titleIdx);
+
+    if (!artist || !title) continue;
+
+    let releaseYear = 0;
+    if (releaseYearIdx !== -1) {
+      const y = parseInt(text(releaseYearIdx));
+      if (!isNaN(y) && y > 1900 && y < 2100) releaseYear = y;
+    }
+
+    const rankings: RankingHistory = {};
+    let hasData = false;
+
+    Object.keys(yearColumnMap).forEach((colIdxStr) => {
+      const colIdx = parseInt(colIdxStr);
+      const year = yearColumnMap[colIdx];
+
+      // Remove dots (1.000 -> 1000) and check if number
+      const num = parseInt(text(colIdx).replace(/\./g, ''));
+      if (!isNaN(num) && num > 0) {
+        rankings[year] = num;
+        hasData = true;
+      } else {
+        rankings[year] = null;
+      }
+    });
+
+    // Only add if we actually found ranking data (filters out spacer rows)
+    if (hasData) {
+      const id = `${artist}-${title}`.toLowerCase().replace(/[^a-z0-9]/g, '-');
+      songs.push({
+        id,
+        artist,
+        title,
+        releaseYear,
+        rankings
+      });
+    }
+  }
+
+  return songs;
+};
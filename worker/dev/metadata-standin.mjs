@@ -0,0 +1,159 @@
+// Local stand-in for the iTunes Search API, the YouTube Data API, the Spotify
+// and Deezer searches used for ISRCs and covers, MusicBrainz and the Cover Art
+// Archive, so the enrichment job (worker/src/enrichment.ts), /youtube/search
+// and /artwork run offline. Every search finds a track; artwork is an SVG
+// served by this server.
+//
+//   node worker/dev/metadata-standin.mjs          (listens on :8789)
+//   FAIL_RATE=0.3 node worker/dev/metadata-standin.mjs   (30% of requests answer 503)
+//
+// and in worker/.dev.vars:
+//
+//   ITUNES_API_BASE_URL=http://localhost:8789
+//   YOUTUBE_API_BASE_URL=http://localhost:8789/youtube/v3
+//   YOUTUBE_API_KEY=standin
+//   SPOTIFY_API_BASE_URL=http://localhost:8789/spotify/v1
+//   SPOTIFY_ACCOUNTS_BASE_URL=http://localhost:8789/spotify
+//   DEEZER_API_BASE_URL=http://localhost:8789/deezer
+//   MUSICBRAINZ_API_BASE_URL=http://localhost:8789/musicbrainz/ws/2
+//   COVER_ART_BASE_URL=http://localhost:8789/coverart
+//
+// Run a batch with `wrangler dev --test-scheduled` and
+// curl "http://localhost:8787/__scheduled?cron=*/15+*+*+*+*".
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = parseInt(process.env.PORT || '8789');
+const FAIL_RATE = parseFloat(process.env.FAIL_RATE || '0');
+const BASE = `http://localhost:${PORT}`;
+
+const hash = (text) => createHash('sha1').update(text).digest('hex').substring(0, 10);
+const trackId = (term) => parseInt(hash(term).substring(0, 8), 16);
+
+const json = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const track = (term, artist = term, title = term) => ({
+  trackId: trackId(term),
+  artistName: artist,
+  trackName: title,
+  artworkUrl100: `${BASE}/artwork/${hash(term)}/100x100bb.svg`,
+  previewUrl: `${BASE}/preview/${hash(term)}.m4a`,
+  trackTimeMillis: 180000 + trackId(term) % 120000,
+  collectionName: `${term} (stand-in album)`,
+  primaryGenreName: 'Rock',
+  releaseDate: `${1960 + trackId(term) % 60}-01-01T12:00:00Z`,
+  trackViewUrl: `https://music.apple.com/nl/album/standin/${trackId(term)}?i=${trackId(term)}&uo=4`
+});
+
+// CC-XXX-YY-NNNNN
+const isrc = (term) => `NLSTD${String(trackId(term) % 100).padStart(2, '0')}${String(trackId(term) % 100000).padStart(5, '0')}`;
+
+// Spotify, Deezer and MusicBrainz queries look like artist:"A" track:"T"
+const quotedParts = (q) => (q.match(/"([^"]*)"/g) || [q]).map(part => part.replace(/"/g, ''));
+const spotifyTerm = (q) => quotedParts(q).join(' ');
+const artistOf = (q) => quotedParts(q)[0];
+const titleOf = (q) => quotedParts(q)[1] ?? quotedParts(q)[0];
+
+// The iTunes term is "artist title" without a marked boundary: one result per
+// way to split it, so the one with the right names is among them
+const splits = (term) => {
+  const words = term.split(/\s+/).filter(Boolean);
+  if (words.length < 2) return [track(term)];
+  return words.slice(1).map((_, i) => track(term, words.slice(0, i + 1).join(' '), words.slice(i + 1).join(' ')));
+};
+
+const artwork = (id) => {
+  const hue = parseInt(id.substring(0, 2), 16) * 360 / 256;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="600" height="600" viewBox="0 0 600 600">` +
+    `<rect width="600" height="600" fill="hsl(${hue}, 60%, 45%)"/>` +
+    `<text x="300" y="320" font-family="sans-serif" font-size="48" fill="#fff" text-anchor="middle">stand-in</text></svg>`;
+};
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, BASE);
+
+  if (url.pathname.startsWith('/artwork/') || url.pathname.startsWith('/coverart/')) {
+    res.writeHead(200, { 'Content-Type': 'image/svg+xml' });
+    // /artwork/<id>/… and /coverart/release-group/<id>/front-250
+    const parts = url.pathname.split('/');
+    res.end(artwork((parts[1] === 'coverart' ? parts[3] : parts[2]) || '00'));
+    return;
+  }
+
+  if (Math.random() < FAIL_RATE) {
+    json(res, 503, { error: 'Simulated failure' });
+    return;
+  }
+
+  if (url.pathname === '/search') {
+    const results = splits(url.searchParams.get('term') || '');
+    json(res, 200, { resultCount: results.length, results });
+  } else if (url.pathname === '/lookup') {
+    // Lookups cannot recover the names from the id; answer with the id only
+    const id = parseInt(url.searchParams.get('id') || '0');
+    json(res, 200, { resultCount: 1, results: [{ ...track(String(id)), trackId: id }] });
+  } else if (url.pathname === '/spotify/api/token') {
+    json(res, 200, { access_token: 'standin', token_type: 'Bearer', expires_in: 3600 });
+  } else if (url.pathname === '/spotify/v1/search') {
+    const q = url.searchParams.get('q') || '';
+    const term = spotifyTerm(q);
+    json(res, 200, {
+      tracks: {
+        items: [{
+          name: titleOf(q),
+          artists: [{ name: artistOf(q) }],
+          album: { name: `${term} (stand-in album)`, release_date: `${1960 + trackId(term) % 60}-01-01` },
+          external_ids: { isrc: isrc(term) }
+        }]
+      }
+    });
+  } else if (url.pathname === '/deezer/search') {
+    const q = url.searchParams.get('q') || '';
+    const term = spotifyTerm(q);
+    json(res, 200, {
+      data: [{
+        id: trackId(term),
+        title: titleOf(q),
+        artist: { name: artistOf(q) },
+        album: {
+          title: `${term} (stand-in album)`,
+          cover_medium: `${BASE}/artwork/${hash(term)}/250x250.svg`,
+          cover_big: `${BASE}/artwork/${hash(term)}/500x500.svg`
+        }
+      }]
+    });
+  } else if (url.pathname.startsWith('/deezer/track/')) {
+    // Like /lookup: only the id is known, so the code is made from it
+    const id = url.pathname.split('/')[3] || '0';
+    json(res, 200, { id: parseInt(id), isrc: isrc(id) });
+  } else if (url.pathname === '/musicbrainz/ws/2/recording') {
+    const query = url.searchParams.get('query') || '';
+    const term = spotifyTerm(query);
+    json(res, 200, {
+      recordings: [{
+        title: titleOf(query),
+        'artist-credit': [{ name: artistOf(query) }],
+        'first-release-date': `${1960 + trackId(term) % 60}-01-01`,
+        releases: [{ 'release-group': { id: hash(term) } }]
+      }]
+    });
+  } else if (url.pathname === '/youtube/v3/channels') {
+    json(res, 200, { items: [{ id: 'UCstandin' }] });
+  } else if (url.pathname === '/youtube/v3/search') {
+    const q = url.searchParams.get('q') || '';
+    json(res, 200, {
+      items: [{
+        id: { videoId: `standin${hash(q).substring(0, 4)}` },
+        snippet: { title: `${q} (stand-in)`, thumbnails: { default: { url: `${BASE}/artwork/${hash(q)}/120x90.svg` } } }
+      }]
+    });
+  } else {
+    json(res, 404, { error: 'Not found' });
+  }
+});
+
+server.listen(PORT, () => console.log(`Metadata stand-in listening on ${BASE}`));
@@ -0,0 +1,89 @@
+// Local stand-in for an OpenAI-compatible chat completions endpoint.
+// Returns a canned, sectioned analysis, streamed word by word when the request
+// asks for `stream: true`, so /analyze and /analyze/stream work offline.
+//
+//   node worker/dev/openai-standin.mjs            (listens on :8788)
+//
+// and in worker/.dev.vars:
+//
+//   LLM_PROVIDERS=standin
+//   LLM_STANDIN_BASE_URL=http://localhost:8788/v1
+//   LLM_STANDIN_MODEL=standin
+
+import { createServer } from 'node:http';
+
+const PORT = parseInt(process.env.PORT || '8788');
+const TOKEN_DELAY_MS = 40;
+
+const cannedAnswer = (prompt) => {
+  const [title = 'dit nummer', artist = 'deze artiest'] = (prompt.match(/"([^"]+)"/g) || []).map(q => q.slice(1, -1));
+  const english = prompt.startsWith('Write in English');
+
+  return english
+    ? `SUMMARY: "${title}" by ${artist} is a stand-in analysis from the local development server. It streams word by word, just like the real thing.\n` +
+      `TRIVIA:\n- This text was not generated by a language model.\n- Every song gets the same facts here.\n` +
+      `MOOD: test mode\nERA: local development`
+    : `SUMMARY: "${title}" van ${artist} is een nep-analyse van de lokale ontwikkelserver. De tekst komt woord voor woord binnen, net als bij een echt taalmodel.\n` +
+      `TRIVIA:\n- Deze tekst is niet door een taalmodel geschreven.\n- Elk nummer krijgt hier dezelfde weetjes.\n` +
+      `MOOD: testmodus\nERA: lokale ontwikkeling`;
+};
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const server = createServer((req, res) => {
+  if (req.method !== 'POST' || !req.url.endsWith('/chat/completions')) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: 'Not found' } }));
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', async () => {
+    let request;
+    try {
+      request = JSON.parse(body);
+    } catch (e) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Invalid JSON' } }));
+      return;
+    }
+
+    const prompt = request.messages?.findLast?.(m => m.role === 'user')?.content || '';
+    const answer = cannedAnswer(prompt);
+    const id = `standin-${Date.now()}`;
+
+    if (!request.stream) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        id,
+        object: 'chat.completion',
+        model: request.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: answer }, finish_reason: 'stop' }]
+      }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    let closed = false;
+    res.on('close', () => { closed = true; });
+
+    // Words plus their trailing whitespace, so newlines survive
+    for (const token of answer.match(/\S+\s*/g) || []) {
+      if (closed) return;
+      res.write(`data: ${JSON.stringify({
+        id,
+        object: 'chat.completion.chunk',
+        model: request.model,
+        choices: [{ index: 0, delta: { content: token }, finish_reason: null }]
+      })}\n\n`);
+      await sleep(TOKEN_DELAY_MS);
+    }
+    res.write('data: [DONE]\n\n');
+    res.end();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`OpenAI-compatible stand-in listening on http://localhost:${PORT}/v1/chat/completions`);
+});
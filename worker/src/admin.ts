@@ -0,0 +1,22 @@
+// --- Admin Access ---
+// Maintenance actions (regenerating cached content) require the ADMIN_TOKEN
+// secret as a bearer token: Authorization: Bearer <token>.
+// Set it with: wrangler secret put ADMIN_TOKEN
+
+const encoder = new TextEncoder();
+
+// Compares hashes so the comparison time does not depend on the token
+const sameToken = async (a, b) => {
+    const [hashA, hashB] = await Promise.all([a, b].map(t => crypto.subtle.digest('SHA-256', encoder.encode(t))));
+    const bytesA = new Uint8Array(hashA);
+    const bytesB = new Uint8Array(hashB);
+    let diff = 0;
+    for (let i = 0; i < bytesA.length; i++) diff |= bytesA[i] ^ bytesB[i];
+    return diff === 0;
+};
+
+export async function isAdminRequest(request, env) {
+    if (!env.ADMIN_TOKEN) return false;
+    const match = (request.headers.get('Authorization') || '').match(/^Bearer\s+(.+)$/);
+    return match ? await sameToken(match[1].trim(), env.ADMIN_TOKEN) : false;
+}
@@ -0,0 +1,87 @@
+// --- Song Analysis ---
+// The LLM provider chain (llm.ts) is asked for a structured analysis { summary, trivia[], mood, era },
+// written as labelled text sections (utils/analysisSections.ts) so it can be
+// streamed over SSE and still be split into its parts.
+// Every analysis is cached in KV per song and language without expiry, so a
+// song reads the same on every visit. The cache key includes the prompt
+// version: bump ANALYSIS_PROMPT_VERSION when the prompt changes to let every
+// song be generated again.
+
+import { songId } from './identity';
+import { parseAnalysisSections, formatAnalysisSections, MAX_TRIVIA } from '../../utils/analysisSections';
+
+export const ANALYSIS_PROMPT_VERSION = 'v2';
+
+const LANGUAGES = {
+    nl: {
+        system: 'Je bent een Nederlandse muziekjournalist die korte, vlotte teksten schrijft over Top 2000-nummers. Je houdt je precies aan het gevraagde antwoordformaat.',
+        prompt: (artist, title) =>
+            `Schrijf in het Nederlands over het nummer "${title}" van "${artist}" en waarom het zo populair is in de Top 2000. ` +
+            `Gebruik precies deze vier secties, met de labels in het Engels:\n` +
+            `SUMMARY: enthousiaste uitleg van max 60 woorden (emotie, nostalgie, meezingen of historische betekenis)\n` +
+            `TRIVIA:\n- max ${MAX_TRIVIA} korte weetjes over de track, elk één zin op een eigen regel\n` +
+            `MOOD: de sfeer van het nummer in 1 tot 3 woorden\n` +
+            `ERA: het tijdperk of de stroming waar het nummer bij hoort, bijvoorbeeld "jaren 80 new wave"`,
+        fallback: (artist, title) => ({
+            summary: `"${title}" van ${artist} is een vaste waarde in de Top 2000. Het nummer roept bij veel luisteraars nostalgische gevoelens op en wordt jaarlijks door duizenden mensen gekozen als een van de beste nummers aller tijden.`,
+            trivia: [],
+            mood: null,
+            era: null
+        })
+    },
+    en: {
+        system: 'You are a music journalist who writes short, lively pieces about songs in the Dutch Top 2000. You follow the requested answer format exactly.',
+        prompt: (artist, title) =>
+            `Write in English about the song "${title}" by "${artist}" and why it is so popular in the Top 2000. ` +
+            `Use exactly these four sections:\n` +
+            `SUMMARY: an enthusiastic explanation of at most 60 words (emotion, nostalgia, singalong or historical meaning)\n` +
+            `TRIVIA:\n- at most ${MAX_TRIVIA} short facts about the track, one sentence each on its own line\n` +
+            `MOOD: the mood of the song in 1 to 3 words\n` +
+            `ERA: the era or movement the song belongs to, for example "80s new wave"`,
+        fallback: (artist, title) => ({
+            summary: `"${title}" by ${artist} is a Top 2000 regular. The song brings back memories for many listeners and is voted one of the greatest songs of all time by thousands of people every year.`,
+            trivia: [],
+            mood: null,
+            era: null
+        })
+    }
+};
+
+export const ANALYSIS_LANGUAGES = Object.keys(LANGUAGES);
+export const DEFAULT_ANALYSIS_LANGUAGE = 'nl';
+
+const cacheKey = (artist, title, lang) => `analysis:${ANALYSIS_PROMPT_VERSION}:${lang}:${songId(artist, title)}`;
+
+export const buildAnalysisMessages = (artist, title, lang) => [
+    { role: 'system', content: LANGUAGES[lang].system },
+    { role: 'user', content: LANGUAGES[lang].prompt(artist, title) }
+];
+
+export const fallbackAnalysis = (artist, title, lang) => LANGUAGES[lang].fallback(artist, title);
+
+// Answer of the offline template provider: the fallback text in sectioned form
+export const analysisTemplate = (artist, title, lang) => () => formatAnalysisSections(fallbackAnalysis(artist, title, lang));
+
+// Splits the model output into its sections. Returns null when there is no summary.
+export function parseAnalysis(content) {
+    const analysis = parseAnalysisSections(content || '');
+    return analysis.summary ? analysis : null;
+}
+
+export async function getCachedAnalysis(env, artist, title, lang) {
+    return await env.ITUNES_CACHE.get(cacheKey(artist, title, lang), 'json');
+}
+
+// source: { provider, model } that generated the analysis
+export async function saveAnalysis(env, artist, title, lang, analysis, source) {
+    const entry = {
+        ...analysis,
+        lang,
+        promptVersion: ANALYSIS_PROMPT_VERSION,
+        provider: source.provider,
+        model: source.model,
+        generatedAt: new Date().toISOString()
+    };
+    await env.ITUNES_CACHE.put(cacheKey(artist, title, lang), JSON.stringify(entry));
+    return entry;
+}
@@ -0,0 +1,172 @@
+// --- Artwork ---
+// GET /artwork/:songId/:size serves a cover for songs the browser found none
+// for at iTunes. Sources are tried in order:
+//   1. iTunes: the enrichment index or the iTunes cache, else a search
+//   2. the Deezer search API
+//   3. the Cover Art Archive, through a MusicBrainz recording search
+// The choice is kept per song and the image per size, so upstreams are asked
+// once. Images are not resized: a size is the source's own rendition that
+// comes nearest, so the pixels differ per source (and CAA covers are not
+// always square):
+//   thumb  ~300px (cards)   iTunes 300x300, Deezer cover_medium (250x250), CAA front-250
+//   large  ~600px (modal)   iTunes 600x600, Deezer cover_big (500x500), CAA front-500
+//
+//   DEEZER_API_BASE_URL       default https://api.deezer.com
+//   MUSICBRAINZ_API_BASE_URL  default https://musicbrainz.org/ws/2
+//   COVER_ART_BASE_URL        default https://coverartarchive.org
+//
+// KV (ITUNES_CACHE):
+//   artwork:<songId>              { source, urls: { thumb, large } };
+//                                 source null = no source has a cover
+//   artwork:img:<songId>:<size>   the image, metadata { contentType, source }
+
+import { searchItunes, itunesCacheKey, namesMatch } from './itunes';
+
+export const ARTWORK_SIZES = ['thumb', 'large'];
+
+const CHOICE_PREFIX = 'artwork:';
+const IMAGE_PREFIX = 'artwork:img:';
+
+const CHOICE_TTL = 60 * 60 * 24 * 30; // 30 days
+const MISS_TTL = 60 * 60 * 24; // 1 day, then the sources are asked again
+const IMAGE_TTL = 60 * 60 * 24 * 30; // 30 days
+const LOOKUP_TIMEOUT_MS = 5000;
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+
+const DEFAULT_BASE_URLS = {
+    deezer: 'https://api.deezer.com',
+    musicbrainz: 'https://musicbrainz.org/ws/2',
+    coverArt: 'https://coverartarchive.org'
+};
+
+// MusicBrainz refuses requests without an identifying User-Agent
+const USER_AGENT = 'Top2000Allertijden/1.0 ( https://top2000allertijden.nl )';
+
+const baseUrl = (value, fallback) => (value || fallback).replace(/\/+$/, '');
+
+const fetchJson = async (url, options = {}) => {
+    const response = await fetch(url, { ...options, signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS) });
+    if (!response.ok) throw new Error(`${new URL(url).hostname} answered ${response.status}`);
+    return await response.json();
+};
+
+const quoted = (text) => text.replace(/"/g, '');
+
+// "…/100x100bb.jpg" in any size
+const itunesUrls = (coverUrl) => ({
+    thumb: coverUrl.replace(/\d+x\d+bb/, '300x300bb'),
+    large: coverUrl.replace(/\d+x\d+bb/, '600x600bb')
+});
+
+async function fromItunes(env, song, index) {
+    const known = index[song.id]?.coverUrl ||
+        (await env.ITUNES_CACHE.get(itunesCacheKey(song.artist, song.title), 'json'))?.coverUrl;
+    if (known) return itunesUrls(known);
+
+    const result = await searchItunes(env, song.artist, song.title);
+    return result?.coverUrl ? itunesUrls(result.coverUrl) : null;
+}
+
+async function fromDeezer(env, song) {
+    const q = `artist:"${quoted(song.artist)}" track:"${quoted(song.title)}"`;
+    const data = await fetchJson(`${baseUrl(env.DEEZER_API_BASE_URL, DEFAULT_BASE_URLS.deezer)}/search?q=${encodeURIComponent(q)}&limit=5`);
+    if (data.error) throw new Error(`Deezer search failed: ${data.error.message}`);
+
+    const album = (data.data || []).find(track =>
+        namesMatch(track.artist?.name || '', song.artist) && namesMatch(track.title || '', song.title) && track.album?.cover_big)?.album;
+    return album ? { thumb: album.cover_medium || album.cover_big, large: album.cover_big } : null;
+}
+
+// The first release group of a matching recording that has a front cover
+async function fromCoverArtArchive(env, song) {
+    const query = `artist:"${quoted(song.artist)}" AND recording:"${quoted(song.title)}"`;
+    const data = await fetchJson(`${baseUrl(env.MUSICBRAINZ_API_BASE_URL, DEFAULT_BASE_URLS.musicbrainz)}/recording?query=${encodeURIComponent(query)}&fmt=json&limit=5`, {
+        headers: { 'User-Agent': USER_AGENT, 'Accept': 'application/json' }
+    });
+
+    const groups = (data.recordings || [])
+        .filter(recording => namesMatch(recording.title || '', song.title) &&
+            namesMatch((recording['artist-credit'] || []).map(credit => credit.name).join(' '), song.artist))
+        .flatMap(recording => (recording.releases || []).map(release => release['release-group']?.id))
+        .filter(Boolean);
+
+    const base = baseUrl(env.COVER_ART_BASE_URL, DEFAULT_BASE_URLS.coverArt);
+    for (const id of Array.from(new Set(groups)).slice(0, 3)) {
+        // 404 when the release group has no front cover
+        const response = await fetch(`${base}/release-group/${id}/front-250`, {
+            method: 'HEAD',
+            signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS)
+        });
+        if (response.ok) {
+            return { thumb: `${base}/release-group/${id}/front-250`, large: `${base}/release-group/${id}/front-500` };
+        }
+    }
+    return null;
+}
+
+const SOURCES = [
+    { name: 'itunes', find: fromItunes },
+    { name: 'deezer', find: fromDeezer },
+    { name: 'coverartarchive', find: fromCoverArtArchive }
+];
+
+// Asks the sources in order. A miss is only remembered when every source
+// answered, so an upstream that is down does not hide a cover for a day.
+async function chooseArtwork(env, song, index) {
+    let failed = false;
+    for (const source of SOURCES) {
+        try {
+            const urls = await source.find(env, song, index);
+            if (urls) {
+                const choice = { source: source.name, urls };
+                await env.ITUNES_CACHE.put(`${CHOICE_PREFIX}${song.id}`, JSON.stringify(choice), { expirationTtl: CHOICE_TTL });
+                return choice;
+            }
+        } catch (e) {
+            console.warn(`Artwork lookup at ${source.name} failed for ${song.id}:`, e.message);
+            failed = true;
+        }
+    }
+
+    const miss = { source: null, urls: null };
+    if (!failed) {
+        await env.ITUNES_CACHE.put(`${CHOICE_PREFIX}${song.id}`, JSON.stringify(miss), { expirationTtl: MISS_TTL });
+    }
+    return miss;
+}
+
+async function downloadImage(url) {
+    const response = await fetch(url, { headers: { 'User-Agent': USER_AGENT }, signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS) });
+    const contentType = response.headers.get('Content-Type') || '';
+    if (!response.ok || !contentType.startsWith('image/')) {
+        throw new Error(`${new URL(url).hostname} answered ${response.status} ${contentType}`);
+    }
+    const body = await response.arrayBuffer();
+    if (body.byteLength > MAX_IMAGE_BYTES) throw new Error(`Image is larger than ${MAX_IMAGE_BYTES} bytes`);
+    return { body, contentType };
+}
+
+// The cover of a song in one of ARTWORK_SIZES: { body, contentType, source },
+// or null when no source has one. index is the enrichment index.
+export async function getArtwork(env, song, size, index) {
+    const imageKey = `${IMAGE_PREFIX}${song.id}:${size}`;
+    const stored = await env.ITUNES_CACHE.getWithMetadata(imageKey, 'arrayBuffer');
+    if (stored?.value) {
+        return { body: stored.value, contentType: stored.metadata.contentType, source: stored.metadata.source };
+    }
+
+    const choice = await env.ITUNES_CACHE.get(`${CHOICE_PREFIX}${song.id}`, 'json') || await chooseArtwork(env, song, index);
+    if (!choice.source) return null;
+
+    let image;
+    try {
+        image = await downloadImage(choice.urls[size]);
+    } catch (e) {
+        // The next request chooses again
+        await env.ITUNES_CACHE.delete(`${CHOICE_PREFIX}${song.id}`);
+        throw e;
+    }
+    const { body, contentType } = image;
+    await env.ITUNES_CACHE.put(imageKey, body, { expirationTtl: IMAGE_TTL, metadata: { contentType, source: choice.source } });
+    return { body, contentType, source: choice.source };
+}
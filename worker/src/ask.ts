@@ -0,0 +1,135 @@
+// --- Ask the Top 2000 ---
+// Turns a question in plain language ("welke nummers uit 1985 stonden ooit in
+// de top 10?") into a SongFilter (utils/songFilter.ts). The LLM chain does the
+// translation; its answer only counts when it passes validateSongFilter.
+// The offline template provider answers with a keyword-based filter, so the
+// route also works without an LLM. Filters are cached per question.
+
+import { validateSongFilter, isEmptySongFilter } from '../../utils/songFilter';
+import { base64Url } from './oauth';
+
+export const ASK_PROMPT_VERSION = 'v1';
+export const MAX_QUESTION_LENGTH = 300;
+
+const CACHE_TTL = 60 * 60 * 24 * 30; // 30 days
+
+const SYSTEM_PROMPT =
+    'You translate questions about the Dutch NPO Radio 2 Top 2000 into a JSON filter. ' +
+    'You answer with a single JSON object and nothing else.';
+
+const buildPrompt = (question, editions) =>
+    `Editions of the Top 2000: ${editions[0]} to ${editions[editions.length - 1]}.\n` +
+    `Translate the question into a JSON object with only the fields that are needed:\n` +
+    `- "artist": part of the artist name\n` +
+    `- "title": part of the song title\n` +
+    `- "releaseYearFrom", "releaseYearTo": release year range of the song (inclusive)\n` +
+    `- "edition": one edition year as a string; the rank fields then apply to that edition\n` +
+    `- "rankMin", "rankMax": position range (1 = highest); without "edition" the song matches when any edition is in range\n` +
+    `- "minEditions", "maxEditions": number of editions the song was in\n` +
+    `- "allTimeRankMax": maximum position in the all-time list\n` +
+    `Examples:\n` +
+    `"welke nummers uit 1985 stonden ooit in de top 10" -> {"releaseYearFrom":1985,"releaseYearTo":1985,"rankMax":10}\n` +
+    `"nummer 1 in 2010" -> {"edition":"2010","rankMax":1}\n` +
+    `"songs by Queen from the 70s" -> {"artist":"Queen","releaseYearFrom":1970,"releaseYearTo":1979}\n` +
+    `Question: ${question}`;
+
+export const buildAskMessages = (question, editions) => [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: buildPrompt(question, editions) }
+];
+
+export const normalizeQuestion = (question) => question.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Parses and validates an LLM answer. Returns the filter, or null when the
+// answer is not JSON, has invalid fields or filters nothing.
+export function parseFilterAnswer(text, editions) {
+    let data;
+    try {
+        const json = (text || '').replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '');
+        data = JSON.parse(json.substring(json.indexOf('{'), json.lastIndexOf('}') + 1));
+    } catch (e) {
+        return null;
+    }
+
+    const { filter, errors } = validateSongFilter(data, editions);
+    if (errors.length > 0) {
+        console.warn('Rejected LLM filter:', errors.join('; '));
+        return null;
+    }
+    return isEmptySongFilter(filter) ? null : filter;
+}
+
+// A year right after these words is an edition ("top 10 van 2010", "in 2010"),
+// otherwise a release year ("uit 1985")
+const EDITION_WORDS = /(?:editie|edition|lijst van|top \d+ (?:van|of|in)|\bin)\s*$/i;
+
+// Keyword-based translation for the offline template provider. Understands
+// years, decades, "top N", "nummer 1", "allertijden" and "elke editie".
+export function heuristicFilter(question, editions) {
+    const q = question.toLowerCase();
+    const filter: Record<string, any> = {};
+
+    // Release year range: "tussen 1980 en 1985", "1980-1985", "between 1980 and 1985"
+    const between = q.match(/\b(?:tussen|between)\s+(\d{4})\s+(?:en|and)\s+(\d{4})\b/) || q.match(/\b(\d{4})\s*-\s*(\d{4})\b/);
+    if (between) {
+        filter.releaseYearFrom = parseInt(between[1]);
+        filter.releaseYearTo = parseInt(between[2]);
+    } else {
+        for (const match of q.matchAll(/\b(19\d{2}|20\d{2})\b/g)) {
+            const year = match[1];
+            const before = q.substring(0, match.index);
+            if (/\btop[\s-]?$/.test(before)) continue;
+            if (!filter.edition && editions.includes(year) && EDITION_WORDS.test(before)) {
+                filter.edition = year;
+            } else if (filter.releaseYearFrom === undefined) {
+                filter.releaseYearFrom = parseInt(year);
+                filter.releaseYearTo = parseInt(year);
+            }
+        }
+    }
+
+    // Decades: "jaren 80", "jaren '80", "80s", "1980s"
+    const decade = q.match(/\bjaren\s*['’]?(\d)0\b/) || q.match(/\b(?:19|20)?(\d)0['’]?s\b/);
+    if (decade && filter.releaseYearFrom === undefined) {
+        const digit = parseInt(decade[1]);
+        const start = (digit <= 2 ? 2000 : 1900) + digit * 10;
+        filter.releaseYearFrom = start;
+        filter.releaseYearTo = start + 9;
+    }
+
+    // Positions: "top 10", "nummer 1", "number one", "#1"
+    // ("top 2000" is the name of the list, not a position)
+    const top = [...q.matchAll(/\btop[\s-]?(\d{1,4})\b/g)].map(m => parseInt(m[1])).find(n => n !== 2000);
+    const numberOne = /\b(?:nummer (?:1|één|een)|number (?:1|one)|op 1)\b|#1\b/.test(q);
+    const rankMax = numberOne ? 1 : top;
+    if (rankMax !== undefined) {
+        if (/\b(?:allertijden|all[\s-]?time)\b/.test(q) && !filter.edition) filter.allTimeRankMax = rankMax;
+        else filter.rankMax = rankMax;
+    }
+
+    // Every edition: "elke editie", "altijd", "every edition", "all editions"
+    if (/\b(?:elke editie|alle edities|altijd|every edition|all editions|always)\b/.test(q)) {
+        filter.minEditions = editions.length;
+    }
+
+    // Artist: "van Queen", "by Queen" (capitalised name in the original question)
+    const artist = question.match(/\b(?:van|by)\s+([A-Z][\w'’&.!-]*(?:\s+[A-Z0-9][\w'’&.!-]*)*)/);
+    if (artist) filter.artist = artist[1].trim();
+
+    const { filter: valid } = validateSongFilter(filter, editions);
+    return valid;
+}
+
+const cacheKey = async (question) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeQuestion(question)));
+    return `ask:${ASK_PROMPT_VERSION}:${base64Url(new Uint8Array(digest))}`;
+};
+
+export async function getCachedFilter(env, question) {
+    return await env.ITUNES_CACHE.get(await cacheKey(question), 'json');
+}
+
+// entry: { filter, provider, model }
+export async function saveFilter(env, question, entry) {
+    await env.ITUNES_CACHE.put(await cacheKey(question), JSON.stringify(entry), { expirationTtl: CACHE_TTL });
+}
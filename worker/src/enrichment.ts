@@ -0,0 +1,245 @@
+// --- Metadata Enrichment ---
+// A scheduled job that works through the dataset and resolves the artwork,
+// preview, track details, ISRC, release year and YouTube video of every song
+// on the server, so covers no longer depend on a visitor's browser finding
+// them first. Results are kept in one index that /data/all-time merges into
+// the list: a first-time visitor gets covers with the data, down to the bottom
+// of the list.
+//
+// Each run handles at most ENRICH_BATCH_SIZE songs (default 10) within
+// ENRICH_TIME_BUDGET_MS (default 20000), in all-time order from a cursor that
+// wraps around. A song whose lookup fails is retried with exponential backoff
+// (1 hour, doubling, at most 7 days). YouTube searches come out of the
+// job's share of the daily YouTube budget (rateLimit.ts), so visitor searches
+// keep the rest; when either is spent, runs skip YouTube until the next day. Set ENRICH_YOUTUBE=false to leave YouTube out entirely,
+// ENRICH_ISRC=false to skip the ISRC lookups (isrc.ts) and
+// ENRICH_RELEASE_YEARS=false to skip the release years (releaseYears.ts).
+//
+// KV (ITUNES_CACHE):
+//   enrich:state           cursor, passes and the counts of the last run
+//   enrich:index           { [songId]: { coverUrl, previewUrl, album, durationMs,
+//                          genre, releaseDate, trackViewUrl, isrc, isrcSource,
+//                          releaseYear, releaseYearSource, releaseYearConfidence,
+//                          youtubeId } };
+//                          null = looked up, not found
+//   enrich:retry:<songId>  { attempts, nextAttempt, error }
+
+import { searchItunes, itunesCacheKey, itunesEntry } from './itunes';
+import { searchYouTube, getCachedYouTube, saveYouTube, YOUTUBE_SEARCH_COST } from './youtube';
+import { reserveBudget } from './rateLimit';
+import { resolveIsrc, getIsrcProviders } from './isrc';
+import { resolveReleaseYear, releaseYearsEnabled } from './releaseYears';
+
+const STATE_KEY = 'enrich:state';
+const INDEX_KEY = 'enrich:index';
+const RETRY_PREFIX = 'enrich:retry:';
+
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_TIME_BUDGET_MS = 20000;
+const BACKOFF_BASE_MS = 60 * 60 * 1000; // 1 hour
+const BACKOFF_MAX_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const RETRY_TTL = 60 * 60 * 24 * 30; // 30 days
+const ITUNES_CACHE_TTL = 60 * 60 * 24 * 30; // 30 days
+
+const positiveInt = (value, fallback) => {
+    const number = parseInt(value);
+    return Number.isInteger(number) && number > 0 ? number : fallback;
+};
+
+const youtubeEnabled = (env) => !!env.YOUTUBE_API_KEY && env.ENRICH_YOUTUBE !== 'false';
+const isrcEnabled = (env) => env.ENRICH_ISRC !== 'false' && getIsrcProviders(env).length > 0;
+
+export const backoffMs = (attempts) => Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+
+export async function getEnrichmentIndex(env) {
+    return await env.ITUNES_CACHE.get(INDEX_KEY, 'json') || {};
+}
+
+// The iTunes fields of an index entry, in the order of SongData
+const ITUNES_FIELDS = ['coverUrl', 'previewUrl', 'album', 'durationMs', 'genre', 'releaseDate', 'trackViewUrl'];
+
+// Adds the enriched fields to songs that do not have them yet. A manual ISRC
+// override (isrc.ts) replaces the resolved one; a resolved release year only
+// fills in songs without a Wikipedia year.
+export function mergeEnrichment(songs, index, isrcOverrides = {}) {
+    return songs.map(song => {
+        const entry = index[song.id];
+        const override = isrcOverrides[song.id];
+        if (!entry && !override) return song;
+        const itunes = Object.fromEntries(ITUNES_FIELDS
+            .filter(field => entry?.[field] !== undefined)
+            .map(field => [field, song[field] ?? entry[field]]));
+        return {
+            ...song,
+            ...itunes,
+            ...(entry?.youtubeId !== undefined ? { youtubeId: entry.youtubeId } : {}),
+            ...(override || entry?.isrc !== undefined ? { isrc: override || entry.isrc } : {}),
+            ...(!song.releaseYear && entry?.releaseYear ? {
+                releaseYear: entry.releaseYear,
+                releaseYearSource: entry.releaseYearSource,
+                releaseYearConfidence: entry.releaseYearConfidence
+            } : {})
+        };
+    });
+}
+
+// Entries from before the track details were kept are looked up again
+const needsItunes = (entry) => !entry || entry.coverUrl === undefined || entry.album === undefined;
+const needsIsrc = (env, entry) => isrcEnabled(env) && (!entry || entry.isrc === undefined);
+const needsReleaseYear = (env, entry) => releaseYearsEnabled(env) && (!entry || entry.releaseYear === undefined);
+const needsYouTube = (env, entry) => youtubeEnabled(env) && (!entry || entry.youtubeId === undefined);
+
+// Resolves what is missing for one song. Returns the updated index entry.
+// Each upstream fails on its own: the other lookups still run (iTunes
+// answering 403 must not hold up the ISRC, year and video), and afterwards
+// the entry with what was found is attached to the thrown error, so the
+// missing parts are retried later.
+async function enrichSong(env, song, entry, run) {
+    const updated = { ...entry };
+    const errors = [];
+    const attempt = async (name, lookup) => {
+        try {
+            await lookup();
+        } catch (e) {
+            errors.push(`${name}: ${e.message}`);
+        }
+    };
+
+    if (needsItunes(entry)) {
+        await attempt('iTunes', async () => {
+            // Browser submissions (POST /itunes) save a search, unless they
+            // predate the track details
+            const cached = await env.ITUNES_CACHE.get(itunesCacheKey(song.artist, song.title), 'json');
+            if ((cached?.coverUrl || cached?.previewUrl) && cached.album !== undefined) {
+                ITUNES_FIELDS.forEach(field => { updated[field] = cached[field] ?? null; });
+            } else {
+                const result = await searchItunes(env, song.artist, song.title);
+                ITUNES_FIELDS.forEach(field => { updated[field] = result?.[field] ?? null; });
+                if (result) {
+                    await env.ITUNES_CACHE.put(itunesCacheKey(song.artist, song.title), JSON.stringify(itunesEntry(result, true)), { expirationTtl: ITUNES_CACHE_TTL });
+                }
+            }
+        });
+    }
+
+    if (needsIsrc(env, entry)) {
+        await attempt('ISRC', async () => {
+            const result = await resolveIsrc(env, song.artist, song.title);
+            updated.isrc = result?.isrc ?? null;
+            updated.isrcSource = result?.source ?? null;
+        });
+    }
+
+    // After iTunes, whose release date is the second opinion
+    if (needsReleaseYear(env, entry)) {
+        await attempt('release year', async () => {
+            Object.assign(updated, await resolveReleaseYear(env, song.artist, song.title, updated.releaseDate));
+        });
+    }
+
+    if (needsYouTube(env, entry) && !run.youtubeBudgetSpent) {
+        await attempt('YouTube', async () => {
+            const cached = await getCachedYouTube(env, song.artist, song.title);
+            if (cached) {
+                updated.youtubeId = cached.videoId;
+            } else if (await reserveBudget(env, 'youtubeEnrichment', YOUTUBE_SEARCH_COST) &&
+                await reserveBudget(env, 'youtube', YOUTUBE_SEARCH_COST)) {
+                const result = await searchYouTube(env, song.artist, song.title);
+                updated.youtubeId = result?.videoId ?? null;
+                if (result) await saveYouTube(env, song.artist, song.title, result);
+            } else {
+                run.youtubeBudgetSpent = true;
+            }
+        });
+    }
+
+    if (errors.length > 0) {
+        throw Object.assign(new Error(errors.join('; ')), { partial: updated });
+    }
+    return updated;
+}
+
+// All-time order: the top of the list first, songs without a rank last
+const enrichmentOrder = (songs) => [...songs].sort((a, b) =>
+    (a.allTimeRank || Number.MAX_SAFE_INTEGER) - (b.allTimeRank || Number.MAX_SAFE_INTEGER));
+
+// One run of the job: enriches the next batch of songs that still miss
+// something and records the progress. Returns the new state.
+export async function runEnrichment(env, songs, now = Date.now()) {
+    const batchSize = positiveInt(env.ENRICH_BATCH_SIZE, DEFAULT_BATCH_SIZE);
+    const timeBudget = positiveInt(env.ENRICH_TIME_BUDGET_MS, DEFAULT_TIME_BUDGET_MS);
+    const started = Date.now();
+
+    const state = await env.ITUNES_CACHE.get(STATE_KEY, 'json') || { cursor: 0, passes: 0 };
+    const index = await getEnrichmentIndex(env);
+    const ordered = enrichmentOrder(songs);
+    const run = { youtubeBudgetSpent: false, processed: 0, enriched: 0, failed: 0 };
+
+    let cursor = ordered.length > 0 ? state.cursor % ordered.length : 0;
+    let passes = state.passes || 0;
+
+    // Scan at most one full round, so a finished dataset costs no upstream calls
+    for (let scanned = 0; scanned < ordered.length; scanned++) {
+        if (run.processed >= batchSize || Date.now() - started > timeBudget) break;
+
+        const song = ordered[cursor];
+        cursor = (cursor + 1) % ordered.length;
+        if (cursor === 0) passes++;
+
+        const entry = index[song.id];
+        const pending = needsItunes(entry) || needsIsrc(env, entry) || needsReleaseYear(env, entry) || (needsYouTube(env, entry) && !run.youtubeBudgetSpent);
+        if (!pending) continue;
+
+        const retry = await env.ITUNES_CACHE.get(`${RETRY_PREFIX}${song.id}`, 'json');
+        if (retry && retry.nextAttempt > now) continue;
+
+        run.processed++;
+        try {
+            const updated = await enrichSong(env, song, entry, run);
+            if (retry) await env.ITUNES_CACHE.delete(`${RETRY_PREFIX}${song.id}`);
+            // Unchanged when only the YouTube budget turned out to be spent
+            if (JSON.stringify(updated) !== JSON.stringify(entry || {})) {
+                index[song.id] = updated;
+                run.enriched++;
+            }
+        } catch (e) {
+            if (e.partial) index[song.id] = e.partial;
+            const attempts = (retry?.attempts || 0) + 1;
+            await env.ITUNES_CACHE.put(`${RETRY_PREFIX}${song.id}`, JSON.stringify({
+                attempts,
+                nextAttempt: now + backoffMs(attempts),
+                error: e.message
+            }), { expirationTtl: RETRY_TTL });
+            run.failed++;
+            console.warn(`Enrichment of ${song.id} failed (attempt ${attempts}):`, e.message);
+        }
+    }
+
+    if (run.enriched > 0 || run.failed > 0) {
+        await env.ITUNES_CACHE.put(INDEX_KEY, JSON.stringify(index));
+    }
+
+    const entries = songs.map(song => index[song.id]);
+    const newState = {
+        cursor,
+        passes,
+        lastRun: new Date(now).toISOString(),
+        lastBatch: { processed: run.processed, enriched: run.enriched, failed: run.failed, youtubeBudgetSpent: run.youtubeBudgetSpent },
+        counts: {
+            songs: songs.length,
+            withCover: entries.filter(e => e?.coverUrl).length,
+            withIsrc: entries.filter(e => e?.isrc).length,
+            releaseYearsBackfilled: songs.filter(song => !song.releaseYear && index[song.id]?.releaseYear).length,
+            withYouTube: entries.filter(e => e?.youtubeId).length,
+            pending: songs.filter(song => needsItunes(index[song.id]) || needsIsrc(env, index[song.id]) || needsReleaseYear(env, index[song.id]) || needsYouTube(env, index[song.id])).length
+        }
+    };
+    await env.ITUNES_CACHE.put(STATE_KEY, JSON.stringify(newState));
+
+    console.log(`Enrichment: ${run.enriched} enriched, ${run.failed} failed, ${newState.counts.pending} pending.`);
+    return newState;
+}
+
+export async function getEnrichmentState(env) {
+    return await env.ITUNES_CACHE.get(STATE_KEY, 'json');
+}
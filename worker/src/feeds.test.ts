@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { parseFeed } from './feeds';
+
+const rss = (item: string) => `<?xml version="1.0"?><rss version="2.0"><channel><item>${item}</item></channel></rss>`;
+const atom = (entry: string) => `<feed xmlns="http://www.w3.org/2005/Atom"><entry>${entry}</entry></feed>`;
+
+describe('parseFeed', () => {
+  it('decodes the entities of a title once', () => {
+    const [item] = parseFeed(rss('<title>Tom &amp;amp; Jerry: &amp;lt;3 &lt;b&gt;</title>'));
+    expect(item.title).toBe('Tom &amp; Jerry: &lt;3 <b>');
+  });
+
+  it('reads escaped HTML and CDATA descriptions as HTML', () => {
+    const [escaped] = parseFeed(rss('<description>&lt;p&gt;Caf&amp;eacute; &amp;amp; bar&lt;/p&gt;</description>'));
+    expect(escaped.description).toBe('Café & bar');
+    const [cdata] = parseFeed(rss('<description><![CDATA[<p>Caf&eacute; &amp; bar</p>]]></description>'));
+    expect(cdata.description).toBe('Café & bar');
+  });
+
+  it('follows the type of Atom text fields', () => {
+    const [text] = parseFeed(atom('<title>A &amp;lt; B</title><summary>x &amp;amp; y</summary>'));
+    expect(text.title).toBe('A &lt; B');
+    expect(text.description).toBe('x &amp; y');
+    const [html] = parseFeed(atom('<title type="html">&lt;em&gt;A&lt;/em&gt; &amp;amp; B</title>'));
+    expect(html.title).toBe('A & B');
+  });
+});
@@ -0,0 +1,307 @@
+// --- News Feeds ---
+// Fetches and merges the news feeds shown in the frontend's news section.
+// Feeds are configured through env vars, in the same way as the LLM providers:
+//
+//   NEWS_FEEDS            comma-separated feed names, default "nporadio2"
+//   NEWS_<NAME>_URL       RSS 2.0 or Atom feed URL
+//   NEWS_<NAME>_LABEL     source label shown with each item (default: the name)
+//   NEWS_<NAME>_KEYWORDS  comma-separated keywords; an item is kept when its
+//                         title, description or categories contain one of them.
+//                         Defaults to NEWS_KEYWORDS ("top 2000,top2000"); "*"
+//                         keeps every item.
+//
+// "nporadio2" has a built-in URL and label. Feeds that fail to load are
+// skipped, so one broken source does not empty the news section.
+
+const DEFAULT_FEEDS = 'nporadio2';
+const DEFAULT_KEYWORDS = 'top 2000,top2000';
+const DESCRIPTION_LENGTH = 200;
+const FETCH_TIMEOUT_MS = 10000;
+
+// Paging of /news?limit=&offset=
+export const DEFAULT_NEWS_LIMIT = 3;
+export const MAX_NEWS_LIMIT = 50;
+
+const BUILT_IN_FEEDS = {
+    nporadio2: { url: 'https://www.nporadio2.nl/nieuws/rss', label: 'NPO Radio 2' }
+};
+
+const envPrefix = (name) => `NEWS_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+
+const parseKeywords = (value) => value.trim() === '*'
+    ? []
+    : value.split(',').map(k => k.trim().toLowerCase()).filter(Boolean);
+
+// The configured feeds. Feeds without a URL are left out.
+export function getNewsFeeds(env) {
+    return (env.NEWS_FEEDS || DEFAULT_FEEDS)
+        .split(',')
+        .map(name => name.trim())
+        .filter(Boolean)
+        .map(name => {
+            const prefix = envPrefix(name);
+            const builtIn = BUILT_IN_FEEDS[name] || {};
+            return {
+                name,
+                url: env[`${prefix}URL`] || builtIn.url,
+                label: env[`${prefix}LABEL`] || builtIn.label || name,
+                keywords: parseKeywords(env[`${prefix}KEYWORDS`] ?? env.NEWS_KEYWORDS ?? DEFAULT_KEYWORDS)
+            };
+        })
+        .filter(feed => feed.url);
+}
+
+// --- XML ---
+// Workers have no DOMParser, so feeds are read with a small XML parser that
+// builds a tree of { name, attrs, children } nodes (text nodes are strings).
+// It handles CDATA, comments, processing instructions, a DOCTYPE and entities;
+// namespace prefixes are kept in the names ("media:content").
+
+// XML entities plus the HTML entities common in (escaped) HTML descriptions
+const ENTITIES = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+    hellip: '…', ndash: '–', mdash: '—', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', euro: '€', copy: '©',
+    eacute: 'é', egrave: 'è', ecirc: 'ê', euml: 'ë', aacute: 'á', agrave: 'à', auml: 'ä', iuml: 'ï',
+    oacute: 'ó', ouml: 'ö', uuml: 'ü', ccedil: 'ç', Eacute: 'É', Ouml: 'Ö', Uuml: 'Ü'
+};
+
+export const decodeEntities = (text) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code) => {
+    if (code[0] === '#') {
+        const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.substring(2), 16) : parseInt(code.substring(1));
+        return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code] ?? ENTITIES[code.toLowerCase()] ?? entity;
+});
+
+const parseAttributes = (text) => {
+    const attrs = {};
+    for (const match of text.matchAll(/([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attrs[match[1]] = decodeEntities(match[2] ?? match[3]);
+    }
+    return attrs;
+};
+
+export function parseXml(xml) {
+    const root = { name: '#document', attrs: {}, children: [] };
+    const stack = [root];
+    const current = () => stack[stack.length - 1];
+    let pos = 0;
+
+    while (pos < xml.length) {
+        const open = xml.indexOf('<', pos);
+        if (open < 0) {
+            current().children.push(decodeEntities(xml.substring(pos)));
+            break;
+        }
+        if (open > pos) current().children.push(decodeEntities(xml.substring(pos, open)));
+
+        if (xml.startsWith('<![CDATA[', open)) {
+            const end = xml.indexOf(']]>', open);
+            current().children.push(xml.substring(open + 9, end < 0 ? xml.length : end));
+            pos = end < 0 ? xml.length : end + 3;
+        } else if (xml.startsWith('<!--', open)) {
+            const end = xml.indexOf('-->', open);
+            pos = end < 0 ? xml.length : end + 3;
+        } else if (xml[open + 1] === '?' || xml[open + 1] === '!') {
+            const end = xml.indexOf('>', open);
+            pos = end < 0 ? xml.length : end + 1;
+        } else if (xml[open + 1] === '/') {
+            const end = xml.indexOf('>', open);
+            const name = xml.substring(open + 2, end < 0 ? xml.length : end).trim();
+            // Close up to the matching element; stray closing tags are ignored
+            const index = stack.map(node => node.name).lastIndexOf(name);
+            if (index > 0) stack.length = index;
+            pos = end < 0 ? xml.length : end + 1;
+        } else {
+            // Find the end of the tag, skipping '>' inside quoted attribute values
+            let end = open + 1;
+            let quote = null;
+            while (end < xml.length && (quote || xml[end] !== '>')) {
+                if (quote) { if (xml[end] === quote) quote = null; }
+                else if (xml[end] === '"' || xml[end] === "'") quote = xml[end];
+                end++;
+            }
+            const body = xml.substring(open + 1, end);
+            const selfClosing = body.endsWith('/');
+            const nameMatch = body.match(/^[^\s/>]+/);
+            if (nameMatch) {
+                const node = { name: nameMatch[0], attrs: parseAttributes(body.substring(nameMatch[0].length)), children: [] };
+                current().children.push(node);
+                if (!selfClosing) stack.push(node);
+            }
+            pos = end + 1;
+        }
+    }
+
+    return root;
+}
+
+const elements = (node, name) => (node?.children || []).filter(child => typeof child !== 'string' && child.name === name);
+const element = (node, name) => elements(node, name)[0];
+const textOf = (node) => !node ? '' : node.children.map(child => typeof child === 'string' ? child : textOf(child)).join('');
+const childText = (node, name) => textOf(element(node, name)).trim();
+
+// Depth-first search, for the channel/feed element wherever it is nested
+const findElement = (node, names) => {
+    for (const child of node.children) {
+        if (typeof child === 'string') continue;
+        if (names.includes(child.name)) return child;
+        const found = findElement(child, names);
+        if (found) return found;
+    }
+    return null;
+};
+
+// --- Items ---
+
+// Text elements are decoded by the parser already, so a title is only tidied
+// up: decoding again would turn an escaped "&amp;lt;" into "<" instead of "&lt;".
+const plainText = (text) => text.replace(/\s+/g, ' ').trim();
+
+// RSS descriptions and Atom type="html" fields hold HTML, which has its own
+// entities once the XML ones are decoded (or as-is inside CDATA)
+const stripHtml = (html) => decodeEntities(html.replace(/<[^>]*>?/g, ' ')).replace(/\s+/g, ' ').trim();
+
+// Atom text constructs are plain text unless type="html"; "xhtml" is markup
+// whose text the parser has decoded
+const atomText = (node, name) => {
+    const field = element(node, name);
+    return field?.attrs.type === 'html' ? stripHtml(textOf(field)) : plainText(textOf(field));
+};
+
+const truncate = (text, length) => {
+    if (text.length <= length) return text;
+    const cut = text.substring(0, length);
+    const space = cut.lastIndexOf(' ');
+    return `${(space > length * 0.6 ? cut.substring(0, space) : cut).replace(/[\s.,;:!?-]+$/, '')}...`;
+};
+
+const toIsoDate = (value) => {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : new Date(time).toISOString();
+};
+
+const imageFromHtml = (html) => html.match(/<img[^>]*?\ssrc=["']([^"']+)["']/i)?.[1] || null;
+
+const isImage = (node) => !node.attrs.type || node.attrs.type.startsWith('image/') || node.attrs.medium === 'image';
+
+// Image from an enclosure, media:content/media:thumbnail, or the first <img> in the HTML
+const findImage = (node, html) => {
+    const enclosure = [...elements(node, 'enclosure'), ...elements(node, 'link').filter(l => l.attrs.rel === 'enclosure')]
+        .find(e => (e.attrs.url || e.attrs.href) && isImage(e));
+    if (enclosure) return enclosure.attrs.url || enclosure.attrs.href;
+
+    const group = element(node, 'media:group');
+    const media = [
+        ...elements(node, 'media:content'), ...elements(group, 'media:content'),
+        ...elements(node, 'media:thumbnail'), ...elements(group, 'media:thumbnail')
+    ].find(m => m.attrs.url && isImage(m));
+    if (media) return media.attrs.url;
+
+    return imageFromHtml(html);
+};
+
+const rssItem = (node) => {
+    const html = childText(node, 'content:encoded') || childText(node, 'description');
+    return {
+        title: plainText(childText(node, 'title')),
+        link: childText(node, 'link') || (element(node, 'guid')?.attrs.isPermaLink !== 'false' ? childText(node, 'guid') : ''),
+        html,
+        description: stripHtml(childText(node, 'description') || html),
+        categories: elements(node, 'category').map(c => textOf(c).trim()),
+        pubDate: toIsoDate(childText(node, 'pubDate') || childText(node, 'dc:date')),
+        imageUrl: findImage(node, html)
+    };
+};
+
+const atomItem = (node) => {
+    const links = elements(node, 'link');
+    const link = links.find(l => !l.attrs.rel || l.attrs.rel === 'alternate') || links[0];
+    const html = childText(node, 'content') || childText(node, 'summary');
+    return {
+        title: atomText(node, 'title'),
+        link: link?.attrs.href || '',
+        html,
+        description: childText(node, 'summary') ? atomText(node, 'summary') : stripHtml(html),
+        categories: elements(node, 'category').map(c => c.attrs.term || c.attrs.label || '').filter(Boolean),
+        pubDate: toIsoDate(childText(node, 'published') || childText(node, 'updated')),
+        imageUrl: findImage(node, html)
+    };
+};
+
+// Parses an RSS 2.0 (or RSS 1.0/RDF) or Atom document into feed items.
+// Throws when the document is neither.
+export function parseFeed(xml) {
+    const root = parseXml(xml);
+    const atom = findElement(root, ['feed']);
+    if (atom) return elements(atom, 'entry').map(atomItem);
+
+    const rss = findElement(root, ['rss', 'rdf:RDF']);
+    if (!rss) throw new Error('Not an RSS or Atom feed');
+    const channel = element(rss, 'channel');
+    // RSS 2.0 nests items in the channel, RSS 1.0 next to it
+    return [...elements(channel, 'item'), ...elements(rss, 'item')].map(rssItem);
+}
+
+const matchesKeywords = (item, keywords) => {
+    if (keywords.length === 0) return true;
+    const text = `${item.title} ${item.description} ${item.categories.join(' ')}`.toLowerCase();
+    return keywords.some(keyword => text.includes(keyword));
+};
+
+// Duplicate detection: the same article in two feeds (or twice in one) has the
+// same link up to tracking parameters, or the same title
+const linkKey = (link) => {
+    try {
+        const url = new URL(link);
+        return `${url.hostname.replace(/^www\./, '')}${url.pathname.replace(/\/+$/, '')}`.toLowerCase();
+    } catch (e) {
+        return link.toLowerCase();
+    }
+};
+const titleKey = (title) => title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+async function fetchFeed(feed) {
+    const response = await fetch(feed.url, {
+        headers: { 'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml' },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+    });
+    if (!response.ok) throw new Error(`${feed.name}: HTTP ${response.status}`);
+
+    return parseFeed(await response.text())
+        .filter(item => item.title && item.link && matchesKeywords(item, feed.keywords))
+        .map(item => ({
+            title: item.title,
+            link: item.link,
+            description: truncate(item.description, DESCRIPTION_LENGTH),
+            pubDate: item.pubDate,
+            imageUrl: item.imageUrl,
+            source: feed.name,
+            sourceLabel: feed.label
+        }));
+}
+
+// Fetches all configured feeds and merges them, newest first, without
+// duplicates. Throws only when no feed could be loaded.
+export async function fetchNewsItems(env) {
+    const feeds = getNewsFeeds(env);
+    const results = await Promise.allSettled(feeds.map(fetchFeed));
+
+    const failed = results.filter(r => r.status === 'rejected');
+    failed.forEach(r => console.error('News feed failed:', (r as PromiseRejectedResult).reason?.message));
+    if (feeds.length === 0 || failed.length === feeds.length) {
+        throw new Error('Failed to fetch news feeds');
+    }
+
+    const items = results
+        .flatMap(r => r.status === 'fulfilled' ? r.value : [])
+        .sort((a, b) => (b.pubDate || '').localeCompare(a.pubDate || ''));
+
+    const seen = new Set();
+    return items.filter(item => {
+        const keys = [`link:${linkKey(item.link)}`, `title:${titleKey(item.title)}`];
+        if (keys.some(key => seen.has(key))) return false;
+        keys.forEach(key => seen.add(key));
+        return true;
+    });
+}
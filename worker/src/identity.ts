@@ -0,0 +1,155 @@
+// --- Canonical Song Identity ---
+// Song ids used to be `${artist}-${title}` with every non a-z0-9 character
+// replaced by '-', so "Bløf" and "Blof" got different ids and a title spelled
+// differently in one edition split its history in two. Ids are now built from
+// canonical (aliased) names with Unicode-aware slugs; ids from the old scheme
+// are kept in an alias index so saved deep links keep resolving.
+
+const ID_ALIASES_KEY = 'top2000_id_aliases';
+
+// Keyed by slug of the name as it appears on Wikipedia
+const ARTIST_ALIASES: Record<string, string> = {
+    'beatles-the': 'The Beatles',
+    'rolling-stones-the': 'The Rolling Stones',
+    'blof': 'BLØF'
+};
+
+// Keyed by `${canonical artist slug}/${title slug}`
+const TITLE_ALIASES: Record<string, string> = {};
+
+// Letters that NFKD does not decompose into base letter + accent
+const TRANSLITERATIONS: Record<string, string> = {
+    'ø': 'o', 'æ': 'ae', 'œ': 'oe', 'ß': 'ss', 'ł': 'l', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ı': 'i'
+};
+
+export const slugify = (text) => (text || '')
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[øæœßłđðþı]/g, c => TRANSLITERATIONS[c])
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['’‘`´]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+
+export const canonicalArtist = (name) => {
+    const alias = ARTIST_ALIASES[slugify(name)];
+    if (alias) return alias;
+
+    // "Beatles, The" / "Dijk, De" → "The Beatles" / "De Dijk"
+    const inverted = name.match(/^(.+),\s*(the|de|het)$/i);
+    return inverted ? `${inverted[2][0].toUpperCase()}${inverted[2].substring(1).toLowerCase()} ${inverted[1]}` : name;
+};
+
+export const canonicalTitle = (artist, title) => TITLE_ALIASES[`${slugify(artist)}/${slugify(title)}`] || title;
+
+export const songId = (artist, title) => `${slugify(artist)}-${slugify(title)}`;
+
+// Ids this song may have had under the old scheme: from the decoded names and
+// from the entity-encoded names the regex scraper used to produce.
+const legacyIds = (artist, title) => {
+    const legacy = (a, t) => `${a}-${t}`.toLowerCase().replace(/[^a-z0-9]/g, '-');
+    const encode = (text) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return [legacy(artist, title), legacy(encode(artist), encode(title)), songId(artist, title)];
+};
+
+const latestRankedYear = (song) => Math.max(0, ...Object.keys(song.rankings || {})
+    .filter(y => song.rankings[y] !== null && song.rankings[y] !== undefined)
+    .map(y => parseInt(y)));
+
+const rankingsConflict = (a, b) => Object.keys(b.rankings || {}).some(year =>
+    a.rankings?.[year] !== null && a.rankings?.[year] !== undefined &&
+    b.rankings[year] !== null && b.rankings[year] !== undefined);
+
+// Gives every scraped song its canonical name and id and merges rows that turn
+// out to be the same song. Rows whose rankings overlap are never merged (two
+// entries in one edition are two songs); they get a numbered id instead.
+// Returns { songs, aliases } where aliases maps old ids to canonical ids.
+export function canonicalizeSongs(rawSongs) {
+    const groups = new Map<string, any[]>();
+
+    rawSongs.forEach(raw => {
+        const artist = canonicalArtist(raw.artist);
+        const title = canonicalTitle(artist, raw.title);
+        const id = songId(artist, title);
+        const entry = {
+            ...raw,
+            artist,
+            title,
+            id,
+            legacy: legacyIds(raw.artist, raw.title)
+        };
+        if (!groups.has(id)) groups.set(id, []);
+        groups.get(id).push(entry);
+    });
+
+    const songs = [];
+    const aliases = {};
+
+    groups.forEach((entries, id) => {
+        const merged = [];
+        entries.forEach(entry => {
+            const target = merged.find(m => !rankingsConflict(m, entry));
+            if (!target) {
+                merged.push({
+                    ...entry,
+                    id: merged.length === 0 ? id : `${id}-${merged.length + 1}`,
+                    rankings: { ...entry.rankings }
+                });
+                return;
+            }
+
+            // Keep the spelling of the most recent edition
+            if (latestRankedYear(entry) > latestRankedYear(target)) {
+                target.artist = entry.artist;
+                target.title = entry.title;
+            }
+            Object.entries(entry.rankings || {}).forEach(([year, rank]) => {
+                if (rank !== null && rank !== undefined) target.rankings[year] = rank;
+                else if (!(year in target.rankings)) target.rankings[year] = null;
+            });
+            if (!target.releaseYear && entry.releaseYear) target.releaseYear = entry.releaseYear;
+            target.legacy = [...target.legacy, ...entry.legacy];
+            console.log(`Merged split history "${entry.artist} - ${entry.title}" into ${target.id}`);
+        });
+
+        merged.forEach(({ legacy, ...song }) => {
+            legacy.forEach(oldId => {
+                if (!(oldId in aliases)) aliases[oldId] = song.id;
+            });
+            songs.push(song);
+        });
+    });
+
+    // A current id always refers to its own song, never to an alias target
+    songs.forEach(song => delete aliases[song.id]);
+
+    return { songs, aliases };
+}
+
+// Adds new old-id → id mappings to the stored index. Entries are only dropped
+// when their old id is in use again by a current song, so links from any
+// earlier scheme or spelling keep working.
+export async function saveIdAliases(env, aliases, songs) {
+    const existing = await env.ITUNES_CACHE.get(ID_ALIASES_KEY, 'json') || {};
+    const merged = { ...existing, ...aliases };
+    songs.forEach(song => delete merged[song.id]);
+
+    const unchanged = Object.keys(merged).length === Object.keys(existing).length &&
+        Object.keys(merged).every(key => existing[key] === merged[key]);
+    if (unchanged) return;
+
+    await env.ITUNES_CACHE.put(ID_ALIASES_KEY, JSON.stringify(merged));
+}
+
+export async function getIdAliases(env) {
+    return await env.ITUNES_CACHE.get(ID_ALIASES_KEY, 'json') || {};
+}
+
+// Follows the alias index (an id may have been renamed more than once)
+export function resolveAlias(aliases, id) {
+    let current = id;
+    for (let hops = 0; hops < 5 && aliases[current] && aliases[current] !== current; hops++) {
+        current = aliases[current];
+    }
+    return current;
+}
@@ -1,3 +1,37 @@
+import { rankSongs, getScoringModel, listScoringModels, DEFAULT_SCORING_MODEL } from './scoring';
+import { computeAllTimeRankHistory, getSongStats } from './stats';
+import { saveSnapshot, listSnapshots, resolveSnapshotId, getSnapshot, getLatestSnapshot, getLatestSnapshotId, diffSnapshots } from './snapshots';
+import { parseTop2000Table } from '../../utils/top2000Table';
+import { renderPlaylist, parseExportSlice, EXPORT_FORMATS } from './playlists';
+import { createOAuthState, verifyOAuthState, clearOAuthCookie } from './oauth';
+import {
+    getSessionId, newSessionId, sessionCookie, clearSessionCookie, saveSessionTokens,
+    getSessionTokens, deleteSessionTokens, hasAnySessionTokens, getSessionCorsHeaders
+} from './sessions';
+import { canonicalizeSongs, saveIdAliases, getIdAliases, resolveAlias } from './identity';
+import { validateScrape, recordRejectedScrape, listRejectedScrapes, getRejectedScrape } from './validation';
+import { checkRateLimit, reserveBudget, budgetRetryAfter, rateLimitResponse } from './rateLimit';
+import {
+    getCachedAnalysis, saveAnalysis, parseAnalysis, buildAnalysisMessages, fallbackAnalysis,
+    analysisTemplate, ANALYSIS_LANGUAGES, DEFAULT_ANALYSIS_LANGUAGE
+} from './analysis';
+import { completeChat, streamChat, TEMPLATE_PROVIDER } from './llm';
+import { buildAskMessages, parseFilterAnswer, heuristicFilter, getCachedFilter, saveFilter, MAX_QUESTION_LENGTH } from './ask';
+import { validateSongFilter, applySongFilter, describeSongFilter } from '../../utils/songFilter';
+import { getRecap, updateLatestRecap, getEditions, buildNarrativeMessages, narrativeTemplate, getNarrative, saveNarrative, isEditionComplete } from './recap';
+import { isAdminRequest } from './admin';
+import { fetchNewsItems, DEFAULT_NEWS_LIMIT, MAX_NEWS_LIMIT } from './feeds';
+import { linkNewsItems } from './newsLinks';
+import { validateItunesSubmission, verifyItunesSubmission, itunesEntry, sameItunesEntry, itunesCacheKey, MAX_SUBMISSION_BYTES, MAX_BATCH_SONGS, MAX_BATCH_BYTES } from './itunes';
+import { searchYouTube, getCachedYouTube, saveYouTube, YOUTUBE_SEARCH_COST } from './youtube';
+import { runEnrichment, getEnrichmentState, getEnrichmentIndex, mergeEnrichment } from './enrichment';
+import { normalizeIsrc, getIsrcOverrides, setIsrcOverride } from './isrc';
+import { getArtwork, ARTWORK_SIZES } from './artwork';
+import { releaseYearReview } from './releaseYears';
+
+// Must match the daily entry in wrangler.toml [triggers]; other crons run the enrichment job
+const DATA_UPDATE_CRON = '0 4 * * *';
+
 export default {
   async fetch(request, env, ctx) {
     const url = new URL(request.url);
@@ -7,11 +41,16 @@ export default {
     const corsHeaders = {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Expose-Headers': 'X-Cache, X-Scoring-Model, X-Fallback, Retry-After',
     };
  
+    // Session routes (refresh/logout) are called with credentials from the frontend only
+    const sessionCorsHeaders = getSessionCorsHeaders(request, env);
+
     if (request.method === 'OPTIONS') {
-      return new Response(null, { headers: corsHeaders });
+      const isSessionRoute = /^\/auth\/(spotify|youtube)\/(refresh|logout)$/.test(path);
+      return new Response(null, { headers: isSessionRoute ? sessionCorsHeaders : corsHeaders });
     }
  
     try {
@@ -19,7 +58,15 @@ export default {
  
       // 1. News Feed
       if (path === '/news') {
-        return await handleNews(env, corsHeaders);
+        const limit = url.searchParams.get('limit') ?? String(DEFAULT_NEWS_LIMIT);
+        const offset = url.searchParams.get('offset') ?? '0';
+        if (!/^\d+$/.test(limit) || !/^\d+$/.test(offset) || parseInt(limit) < 1 || parseInt(limit) > MAX_NEWS_LIMIT) {
+          return new Response(JSON.stringify({ error: `Invalid limit or offset, expected ?limit=1-${MAX_NEWS_LIMIT}&offset=N` }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+        return await handleNews(env, corsHeaders, parseInt(limit), parseInt(offset));
       }
  
       // 2. iTunes Metadata
@@ -36,10 +83,21 @@ export default {
         return await handleiTunesGet(artist, title, env, corsHeaders);
       }
  
+      // 2a. iTunes Metadata for many songs at once (cache only)
+      if (path === '/itunes/batch' && request.method === 'POST') {
+        return await handleiTunesBatch(request, env, corsHeaders);
+      }
+ 
+      // 2b. Artwork (iTunes → Deezer → Cover Art Archive), cached per song and size
+      const artworkMatch = path.match(/^\/artwork\/([^/]+)\/([^/]+)$/);
+      if (artworkMatch && request.method === 'GET') {
+        return await handleArtwork(env, corsHeaders, decodeURIComponent(artworkMatch[1]), artworkMatch[2]);
+      }
+ 
       // 3. Auth Login
       if (path.match(/\/auth\/(spotify|youtube)\/login/)) {
         const service = path.split('/')[2];
-        return handleAuthLogin(service, env);
+        return await handleAuthLogin(request, service, env);
       }
  
       // 4. Auth Callback
@@ -48,51 +106,167 @@ export default {
         return await handleAuthCallback(request, service, env);
       }
  
-      // 5. Auth Refresh
+      // 5. Auth Refresh (server-side, refresh token from the session)
       if (path.match(/\/auth\/(spotify|youtube)\/refresh/)) {
         const service = path.split('/')[2];
-        return await handleAuthRefresh(request, service, env, corsHeaders);
+        if (request.method !== 'POST') {
+          return new Response('Method Not Allowed', { status: 405, headers: { ...sessionCorsHeaders, 'Allow': 'POST' } });
+        }
+        return await handleAuthRefresh(request, service, env, sessionCorsHeaders);
+      }
+
+      // 5a. Auth Logout (revokes at the provider where possible)
+      if (path.match(/\/auth\/(spotify|youtube)\/logout/)) {
+        const service = path.split('/')[2];
+        if (request.method !== 'POST') {
+          return new Response('Method Not Allowed', { status: 405, headers: { ...sessionCorsHeaders, 'Allow': 'POST' } });
+        }
+        return await handleAuthLogout(request, service, env, sessionCorsHeaders);
       }
 
-      // 6. Analyze Song (Groq)
-      if (path === '/analyze') {
+      // 6. Analyze Song (LLM provider chain, cached in KV, rate limited on cache misses)
+      //    /analyze/stream streams the text as Server-Sent Events
+      if (path === '/analyze' || path === '/analyze/stream') {
         const artist = url.searchParams.get('artist');
         const title = url.searchParams.get('title');
         if (!artist || !title) {
           return new Response('Missing artist or title', { status: 400, headers: corsHeaders });
         }
-        return await handleAnalyze(artist, title, env, corsHeaders);
+        const lang = url.searchParams.get('lang') || DEFAULT_ANALYSIS_LANGUAGE;
+        if (!ANALYSIS_LANGUAGES.includes(lang)) {
+          return new Response(JSON.stringify({ error: 'Unsupported language', languages: ANALYSIS_LANGUAGES }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+        const regenerate = url.searchParams.get('regenerate') === 'true';
+        if (path === '/analyze/stream') {
+          return await handleAnalyzeStream(request, artist, title, lang, regenerate, env, corsHeaders);
+        }
+        return await handleAnalyze(request, artist, title, lang, regenerate, env, corsHeaders);
       }
 
-      // 7. YouTube Search
+      // 7. YouTube Search (rate limited)
       if (path === '/youtube/search') {
         const artist = url.searchParams.get('artist');
         const title = url.searchParams.get('title');
         if (!artist || !title) {
           return new Response('Missing artist or title', { status: 400, headers: corsHeaders });
         }
-        return await handleYouTubeSearch(artist, title, env, corsHeaders);
+        return await handleYouTubeSearch(request, artist, title, env, corsHeaders);
       }
  
+      // Scoring model (?scoring=) for the all-time list and exports
+      const scoring = getScoringModel(url.searchParams.get('scoring'));
+      if (!scoring) {
+          return new Response(JSON.stringify({ error: 'Unknown scoring model', models: listScoringModels() }), {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+      }
+
+      // Edition window (?from=&to=) for the all-time list, /ask and exports;
+      // other routes (/data/diff) read from/to themselves
+      const usesRange = path === '/data/top2000' || path === '/data/all-time' || path === '/ask' || path.startsWith('/export/');
+      const range = usesRange ? parseYearRange(url.searchParams) : {};
+      if (!range) {
+          return new Response(JSON.stringify({ error: 'Invalid year range, expected ?from=YYYY&to=YYYY with from <= to' }), {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+      }
+
       // 8. Top 2000 Data (All-time list)
       if (path === '/data/top2000' || path === '/data/all-time') {
-          return await handleTop2000Data(env, corsHeaders, url.searchParams.get('force') === 'true');
+          return await handleTop2000Data(env, corsHeaders, url.searchParams.get('force') === 'true', scoring, range);
       }
 
-      // 9. Soundiiz / Playlist Export (XSPF/JSON)
-      // Matches: /export/top2000-all-time.xspf, /export/top2000-2023.json
-      const exportMatch = path.match(/^\/export\/top2000-(.+)\.(xspf|json)$/);
-      if (exportMatch) {
-          const year = exportMatch[1];
-          const format = exportMatch[2];
-          return await handlePlaylistExport(env, corsHeaders, year, format);
+      if (path === '/data/scoring-models') {
+          return new Response(JSON.stringify(listScoringModels()), {
+              headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=86400' }
+          });
       }
-      
-      // Legacy/Fallback
-      if (path === '/export/soundiiz') {
-          const year = url.searchParams.get('year');
-          const format = url.searchParams.get('format') || 'xspf';
-          return await handlePlaylistExport(env, corsHeaders, year, format);
+
+      // 8a. Single song / artist details
+      const songMatch = path.match(/^\/data\/song\/([^/]+)$/);
+      if (songMatch) {
+          return await handleSongDetail(env, corsHeaders, decodeURIComponent(songMatch[1]));
+      }
+
+      const artistMatch = path.match(/^\/data\/artist\/([^/]+)$/);
+      if (artistMatch) {
+          return await handleArtistDetail(env, corsHeaders, decodeURIComponent(artistMatch[1]));
+      }
+
+      // 8b. Dataset snapshots & diff
+      if (path === '/data/snapshots') {
+          return await handleSnapshotList(env, corsHeaders);
+      }
+
+      if (path === '/data/diff') {
+          return await handleSnapshotDiff(env, corsHeaders, url.searchParams.get('from'), url.searchParams.get('to'));
+      }
+
+      // 8c. Rejected scrapes (failed validation)
+      if (path === '/data/rejected') {
+          return await handleRejectedList(env, corsHeaders);
+      }
+
+      const rejectedMatch = path.match(/^\/data\/rejected\/([^/]+)$/);
+      if (rejectedMatch) {
+          return await handleRejectedDetail(env, corsHeaders, decodeURIComponent(rejectedMatch[1]));
+      }
+
+      // 8d. Edition recap ("Jaaroverzicht"), ?narrative=true adds a written summary
+      const recapMatch = path.match(/^\/data\/recap\/(\d{4})$/);
+      if (recapMatch) {
+          const narrative = url.searchParams.get('narrative') === 'true';
+          return await handleRecap(request, env, corsHeaders, recapMatch[1], narrative, url.searchParams.get('regenerate') === 'true');
+      }
+
+      // 8e. Ask the Top 2000 (question in plain language → filter → songs)
+      if (path === '/ask') {
+          return await handleAsk(request, env, corsHeaders, url.searchParams.get('q'), scoring, range);
+      }
+
+      // 8f. Metadata enrichment progress; POST runs a batch now (admin)
+      if (path === '/data/enrichment') {
+          return await handleEnrichment(request, env, corsHeaders);
+      }
+
+      // 8g. ISRC overrides; PUT/DELETE /data/isrc/:id set or remove one (admin)
+      if (path === '/data/isrc') {
+          return await handleIsrcOverrides(env, corsHeaders);
+      }
+
+      const isrcMatch = path.match(/^\/data\/isrc\/([^/]+)$/);
+      if (isrcMatch && (request.method === 'PUT' || request.method === 'DELETE')) {
+          return await handleIsrcOverride(request, env, corsHeaders, decodeURIComponent(isrcMatch[1]));
+      }
+
+      // 8h. Release years filled in by the enrichment job, and conflicts with Wikipedia
+      if (path === '/data/release-years') {
+          return await handleReleaseYears(env, corsHeaders);
+      }
+
+      // 9. Soundiiz / Playlist Export (XSPF/JSON/JSPF/M3U8/CSV)
+      // Matches: /export/top2000-all-time.xspf, /export/top2000-2023.csv?range=1-100
+      const exportMatch = path.match(/^\/export\/top2000-(.+)\.(xspf|json|jspf|m3u8|csv)$/);
+      const isLegacyExport = path === '/export/soundiiz';
+      if (exportMatch || isLegacyExport) {
+          const slice = parseExportSlice(url.searchParams);
+          if (!slice) {
+              return new Response(JSON.stringify({ error: 'Invalid limit or range, expected ?limit=N or ?range=1-100' }), {
+                  status: 400,
+                  headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+              });
+          }
+
+          // Legacy/Fallback: /export/soundiiz?year=&format=
+          const year = exportMatch ? exportMatch[1] : url.searchParams.get('year');
+          const requestedFormat = exportMatch ? exportMatch[2] : url.searchParams.get('format');
+          const format = EXPORT_FORMATS.includes(requestedFormat) ? requestedFormat : 'xspf';
+          return await handlePlaylistExport(env, corsHeaders, year, format, scoring, range, slice);
       }
 
       return new Response('Not Found', { status: 404, headers: corsHeaders });
@@ -103,121 +277,195 @@ export default {
   },
 
   async scheduled(event, env, ctx) {
-    ctx.waitUntil(updateTop2000Data(env));
+    // The daily cron refreshes the dataset; the frequent one enriches metadata
+    if (event.cron === DATA_UPDATE_CRON) {
+      ctx.waitUntil(updateTop2000Data(env));
+    } else {
+      ctx.waitUntil(runScheduledEnrichment(env));
+    }
   },
 };
  
 // --- HANDLERS ---
  
-async function handleNews(env, corsHeaders) {
-  const CACHE_KEY = 'news_feed_json';
+async function handleNews(env, corsHeaders, limit, offset) {
+  const CACHE_KEY = 'news_feed_v3';
   const CACHE_TTL = 900; // 15 minutes
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
  
-  // 1. Try Cache
-  const cached = await env.NEWS_CACHE.get(CACHE_KEY, 'json');
-  if (cached) {
-    return new Response(JSON.stringify(cached), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'X-Cache': 'HIT' }
-    });
-  }
- 
-  // 2. Fetch RSS
-  const FEED_URL = 'https://www.nporadio2.nl/nieuws/rss';
-  const response = await fetch(FEED_URL);
-  if (!response.ok) {
-    throw new Error('Failed to fetch RSS feed');
-  }
-  const xml = await response.text();
- 
-  // 3. Parse XML (Simple Regex Approach)
-  const items = [];
-  const itemRegex = /<item>([\s\S]*?)<\/item>/g;
-  let match;
+  // 1. Try Cache (the merged list of all feeds, paged per request)
+  let items = await env.NEWS_CACHE.get(CACHE_KEY, 'json');
+  const cacheStatus = items ? 'HIT' : 'MISS';
  
-  while ((match = itemRegex.exec(xml)) !== null) {
-    const itemContent = match[1];
-    const getTag = (tag) => {
-      const regex = new RegExp(`<${tag}.*?>([\\s\\S]*?)<\/${tag}>`);
-      const m = itemContent.match(regex);
-      return m ? m[1].replace(/<!\[CDATA\[(.*?)\]\]>/g, '$1').trim() : '';
-    };
- 
-    const title = getTag('title');
-    const link = getTag('link');
-    const description = getTag('description').replace(/<[^>]*>?/gm, ''); // Strip HTML
-    const category = getTag('category');
-    const pubDate = getTag('pubDate');
- 
-    // Image extraction
-    let imageUrl = null;
-    
-    // 1. Try enclosure
-    const enclosureMatch = itemContent.match(/<enclosure[\s\S]*?url="([^"]+)"/);
-    if (enclosureMatch) {
-        imageUrl = enclosureMatch[1];
-    } else {
-        // 2. Try media:content
-        const mediaMatch = itemContent.match(/<media:content[\s\S]*?url="([^"]+)"/);
-        if (mediaMatch) {
-            imageUrl = mediaMatch[1];
-        } else {
-            // 3. Try img tag in description (before stripping)
-            const rawDescription = getTag('description'); 
-            const imgMatch = rawDescription.match(/<img[\s\S]*?src="([^"]+)"/);
-            if (imgMatch) imageUrl = imgMatch[1];
-        }
-    }
-    
-    // Filter logic (Top 2000 related)
-    const fullText = `${title} ${description} ${category}`.toLowerCase();
-    if (fullText.includes('top 2000') || fullText.includes('top2000')) {
-       items.push({
-        title,
-        link,
-        description: description.substring(0, 200) + '...',
-        pubDate,
-        imageUrl
-      });
-    }
+  // 2. Fetch and merge the configured feeds (see feeds.ts), then link each
+  //    item to the songs it mentions. Uses the stored dataset only, so a news
+  //    request never triggers a scrape.
+  if (!items) {
+    const songs = await env.ITUNES_CACHE.get('top2000_alltime_data_v1', 'json') || await getLatestSnapshot(env);
+    items = linkNewsItems(await fetchNewsItems(env), songs);
+    await env.NEWS_CACHE.put(CACHE_KEY, JSON.stringify(items), { expirationTtl: CACHE_TTL });
   }
  
-  const result = items.slice(0, 3); // Limit to 3
- 
-  // 4. Store in Cache
-  await env.NEWS_CACHE.put(CACHE_KEY, JSON.stringify(result), { expirationTtl: CACHE_TTL });
- 
-  return new Response(JSON.stringify(result), {
-    headers: { ...corsHeaders, 'Content-Type': 'application/json', 'X-Cache': 'MISS' }
+  return new Response(JSON.stringify({
+    items: items.slice(offset, offset + limit),
+    total: items.length,
+    limit,
+    offset
+  }), {
+    headers: { ...jsonHeaders, 'X-Cache': cacheStatus }
   });
 }
 
+// Exports look up track durations in the iTunes cache up to this many tracks
+const MAX_DURATION_LOOKUPS = 250;
+
+// The song in the stored dataset (never a scrape) with this artist and title;
+// songs is null when no dataset is stored. Names are compared the way the
+// iTunes cache keys them: ids cannot be rebuilt, as canonicalizeSongs numbers
+// the ids of songs that share one.
+async function findStoredSong(env, artist, title) {
+    const songs = await env.ITUNES_CACHE.get('top2000_alltime_data_v1', 'json') || await getLatestSnapshot(env);
+    const key = itunesCacheKey(artist, title);
+    return { songs, song: songs?.find(song => itunesCacheKey(song.artist, song.title) === key) || null };
+}
+
+// Stores a cover/preview found by a browser, after the checks in itunes.ts
 async function handleiTunesPost(request, env, corsHeaders) {
+    const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+    const refuse = (status, error) => new Response(JSON.stringify({ error }), { status, headers: jsonHeaders });
+
     try {
-        const body = await request.json();
-        const { artist, title, coverUrl, previewUrl } = body;
+        if (parseInt(request.headers.get('Content-Length') || '0') > MAX_SUBMISSION_BYTES) {
+            return refuse(413, `Body is larger than ${MAX_SUBMISSION_BYTES} bytes`);
+        }
+        const text = await request.text();
+        if (new TextEncoder().encode(text).length > MAX_SUBMISSION_BYTES) {
+            return refuse(413, `Body is larger than ${MAX_SUBMISSION_BYTES} bytes`);
+        }
 
-        if (!artist || !title) {
-            return new Response('Missing artist or title', { status: 400, headers: corsHeaders });
+        let body;
+        try {
+            body = JSON.parse(text);
+        } catch (e) {
+            return refuse(400, 'Body must be JSON');
+        }
+
+        const { submission, errors } = validateItunesSubmission(body);
+        if (!submission) {
+            return refuse(400, errors.join('; '));
+        }
+
+        // Only songs in the dataset
+        const { songs, song } = await findStoredSong(env, submission.artist, submission.title);
+        if (!songs) {
+            return refuse(503, 'Dataset not available');
+        }
+        if (!song) {
+            return refuse(404, 'Unknown song');
+        }
+
+        const cacheKey = itunesCacheKey(submission.artist, submission.title);
+        const existing = await env.ITUNES_CACHE.get(cacheKey, 'json');
+        if (existing && sameItunesEntry(existing, submission)) {
+            return new Response(JSON.stringify({ success: true, verified: !!existing.verified }), { headers: jsonHeaders });
+        }
+
+        // An existing entry is only replaced by a submission iTunes confirms
+        const verified = await verifyItunesSubmission(env, submission);
+        if (existing && !verified) {
+            return refuse(409, 'An entry for this song exists; only a verified submission (with trackId) can replace it');
         }
 
-        const cacheKey = `itunes-v2:${artist.trim().toLowerCase()}:${title.trim().toLowerCase()}`.replace(/\s+/g, '-');
-        
-        // Store in KV
         // 7 days expiration
-        const data = { coverUrl, previewUrl };
-        await env.ITUNES_CACHE.put(cacheKey, JSON.stringify(data), { expirationTtl: 60 * 60 * 24 * 7 });
+        await env.ITUNES_CACHE.put(cacheKey, JSON.stringify(itunesEntry(submission, verified)), { expirationTtl: 60 * 60 * 24 * 7 });
 
-        return new Response(JSON.stringify({ success: true }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
+        return new Response(JSON.stringify({ success: true, verified }), { headers: jsonHeaders });
     } catch (e) {
         return new Response(`Error: ${e.message}`, { status: 500, headers: corsHeaders });
     }
 }
  
+// Cached entries for up to MAX_BATCH_SONGS { artist, title } pairs; pairs
+// without an entry are listed under misses for the browser to look up
+async function handleiTunesBatch(request, env, corsHeaders) {
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+  const refuse = (status, error) => new Response(JSON.stringify({ error }), { status, headers: jsonHeaders });
+
+  const text = await request.text();
+  if (new TextEncoder().encode(text).length > MAX_BATCH_BYTES) {
+    return refuse(413, `Body is larger than ${MAX_BATCH_BYTES} bytes`);
+  }
+
+  let songs;
+  try {
+    songs = JSON.parse(text)?.songs;
+  } catch (e) {
+    return refuse(400, 'Body must be JSON');
+  }
+  if (!Array.isArray(songs) || songs.length === 0 || songs.length > MAX_BATCH_SONGS) {
+    return refuse(400, `Expected { songs: [{ artist, title }] } with 1 to ${MAX_BATCH_SONGS} songs`);
+  }
+  if (!songs.every(s => s && typeof s.artist === 'string' && s.artist.trim() && typeof s.title === 'string' && s.title.trim())) {
+    return refuse(400, 'Every song needs an artist and a title');
+  }
+
+  const cached = await Promise.all(songs.map(s => env.ITUNES_CACHE.get(itunesCacheKey(s.artist, s.title), 'json')));
+  const found = [];
+  const misses = [];
+  songs.forEach((s, i) => {
+    if (cached[i]) found.push({ artist: s.artist, title: s.title, ...cached[i] });
+    else misses.push({ artist: s.artist, title: s.title });
+  });
+
+  return new Response(JSON.stringify({ found, misses }), { headers: jsonHeaders });
+}
+ 
+// Browsers and the CDN keep covers for 30 days
+const ARTWORK_MAX_AGE = 60 * 60 * 24 * 30;
+
+async function handleArtwork(env, corsHeaders, id, size) {
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+  if (!ARTWORK_SIZES.includes(size)) {
+    return new Response(JSON.stringify({ error: `Size must be one of ${ARTWORK_SIZES.join(', ')}` }), { status: 400, headers: jsonHeaders });
+  }
+
+  // Only songs in the dataset (the stored one, so artwork never triggers a scrape)
+  const songs = await env.ITUNES_CACHE.get('top2000_alltime_data_v1', 'json') || await getLatestSnapshot(env);
+  const song = songs?.find(s => s.id === id);
+  if (!song) {
+    return new Response(JSON.stringify({ error: 'Unknown song' }), { status: 404, headers: jsonHeaders });
+  }
+
+  let artwork;
+  try {
+    artwork = await getArtwork(env, song, size, await getEnrichmentIndex(env));
+  } catch (e) {
+    return new Response(JSON.stringify({ error: `Artwork unavailable: ${e.message}` }), { status: 502, headers: jsonHeaders });
+  }
+
+  // The browser shows its own placeholder; asked again after an hour
+  if (!artwork) {
+    return new Response(JSON.stringify({ error: 'No artwork found' }), {
+      status: 404,
+      headers: { ...jsonHeaders, 'Cache-Control': 'public, max-age=3600' }
+    });
+  }
+
+  return new Response(artwork.body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': artwork.contentType,
+      'Cache-Control': `public, max-age=${ARTWORK_MAX_AGE}, immutable`,
+      // Upstream SVGs are served from this origin; no scripts
+      'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+      'X-Content-Type-Options': 'nosniff',
+      'X-Artwork-Source': artwork.source
+    }
+  });
+}
+ 
 async function handleiTunesGet(artist, title, env, corsHeaders) {
-  // Changed cache key prefix to 'itunes-v2' to invalidate old cache
-  const cacheKey = `itunes-v2:${artist.toLowerCase()}:${title.toLowerCase()}`.replace(/\s+/g, '-');
+  const cacheKey = itunesCacheKey(artist, title);
   
   // 1. Try Cache
   const cached = await env.ITUNES_CACHE.get(cacheKey, 'json');
@@ -232,9 +480,10 @@ async function handleiTunesGet(artist, title, env, corsHeaders) {
   return new Response(null, { status: 404, headers: { ...corsHeaders, 'X-Cache': 'MISS', 'Cache-Control': 'no-cache' } });
 }
  
-function handleAuthLogin(service, env) {
+async function handleAuthLogin(request, service, env) {
   let authUrl = '';
-  const state = Math.random().toString(36).substring(7); // Simple state
+  const returnPath = new URL(request.url).searchParams.get('return');
+  const { state, codeChallenge, cookie } = await createOAuthState(env, service, returnPath);
   
   const redirectUrlObj = new URL(`/auth/${service}/callback`, env.REDIRECT_URI);
   const redirectUri = redirectUrlObj.toString();
@@ -246,6 +495,8 @@ function handleAuthLogin(service, env) {
       `&client_id=${env.SPOTIFY_CLIENT_ID}` +
       `&scope=${encodeURIComponent(scope)}` +
       `&redirect_uri=${encodeURIComponent(redirectUri)}` +
+      `&code_challenge_method=S256` +
+      `&code_challenge=${codeChallenge}` +
       `&state=${state}`;
   } else if (service === 'youtube') {
     const scope = 'https://www.googleapis.com/auth/youtube.force-ssl';
@@ -256,10 +507,13 @@ function handleAuthLogin(service, env) {
       `&redirect_uri=${encodeURIComponent(redirectUri)}` +
       `&access_type=offline` +
       `&prompt=consent` + 
+      `&code_challenge_method=S256` +
+      `&code_challenge=${codeChallenge}` +
       `&state=${state}`;
   }
  
-  return Response.redirect(authUrl, 302);
+  // Response.redirect() does not allow extra headers, and we need the cookie
+  return new Response(null, { status: 302, headers: { 'Location': authUrl, 'Set-Cookie': cookie } });
 }
  
 async function handleAuthCallback(request, service, env) {
@@ -271,14 +525,29 @@ async function handleAuthCallback(request, service, env) {
     ? env.FRONTEND_URL 
     : 'https://top2000allertijden.nl';
 
+  // Back to the view the login started from; the one-time cookie is always cleared
+  const verified = await verifyOAuthState(env, request, service, url.searchParams.get('state'));
+  const redirectTo = ({ error = null, fragment = '', cookies = [] }) => {
+    let target = new URL(verified.returnPath || '/', frontendUrl);
+    if (target.origin !== new URL(frontendUrl).origin) target = new URL('/', frontendUrl);
+    if (error) target.searchParams.set('error', error);
+    const headers = new Headers({ 'Location': `${target.toString()}${fragment}` });
+    [clearOAuthCookie(service), ...cookies].forEach(cookie => headers.append('Set-Cookie', cookie));
+    return new Response(null, { status: 302, headers });
+  };
+
   if (error || !code) {
-    return Response.redirect(`${frontendUrl}/?error=${error || 'no_code'}`, 302);
+    return redirectTo({ error: error || 'no_code' });
+  }
+
+  if (verified.error) {
+    return redirectTo({ error: verified.error });
   }
 
   const redirectUrlObj = new URL(`/auth/${service}/callback`, env.REDIRECT_URI);
   const redirectUri = redirectUrlObj.toString();
 
-  let tokenData = {};
+  let tokenData: any = {};
 
   if (service === 'spotify') {
     const body = new URLSearchParams({
@@ -287,6 +556,7 @@ async function handleAuthCallback(request, service, env) {
       redirect_uri: redirectUri,
       client_id: env.SPOTIFY_CLIENT_ID,
       client_secret: env.SPOTIFY_CLIENT_SECRET,
+      code_verifier: verified.codeVerifier,
     });
 
     const resp = await fetch('https://accounts.spotify.com/api/token', {
@@ -303,6 +573,7 @@ async function handleAuthCallback(request, service, env) {
       redirect_uri: redirectUri,
       client_id: env.YOUTUBE_CLIENT_ID,
       client_secret: env.YOUTUBE_CLIENT_SECRET,
+      code_verifier: verified.codeVerifier,
     });
 
     const resp = await fetch('https://oauth2.googleapis.com/token', {
@@ -314,32 +585,37 @@ async function handleAuthCallback(request, service, env) {
   }
 
   if (tokenData.error) {
-     return Response.redirect(`${frontendUrl}/?error=${tokenData.error}`, 302);
+     return redirectTo({ error: tokenData.error });
+  }
+
+  // The refresh token stays in the (encrypted) session; the frontend only gets the access token
+  const sessionId = getSessionId(request) || newSessionId();
+  if (tokenData.refresh_token) {
+    await saveSessionTokens(env, sessionId, service, { refreshToken: tokenData.refresh_token });
   }
 
   const params = new URLSearchParams();
   params.append('access_token', tokenData.access_token);
-  if (tokenData.refresh_token) params.append('refresh_token', tokenData.refresh_token);
   if (tokenData.expires_in) params.append('expires_in', tokenData.expires_in.toString());
   params.append('service', service);
 
-  return Response.redirect(`${frontendUrl}/#callback&${params.toString()}`, 302);
+  return redirectTo({ fragment: `#callback&${params.toString()}`, cookies: [sessionCookie(sessionId)] });
 }
  
 async function handleAuthRefresh(request, service, env, corsHeaders) {
-  const url = new URL(request.url);
-  const refreshToken = url.searchParams.get('refresh_token');
+  const sessionId = getSessionId(request);
+  const session = await getSessionTokens(env, sessionId, service);
   
-  if (!refreshToken) {
-    return new Response('Missing refresh_token', { status: 400, headers: corsHeaders });
+  if (!session?.refreshToken) {
+    return new Response(JSON.stringify({ error: 'no_session' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
   }
  
-  let tokenData = {};
+  let tokenData: any = {};
  
   if (service === 'spotify') {
     const body = new URLSearchParams({
       grant_type: 'refresh_token',
-      refresh_token: refreshToken,
+      refresh_token: session.refreshToken,
       client_id: env.SPOTIFY_CLIENT_ID,
       client_secret: env.SPOTIFY_CLIENT_SECRET,
     });
@@ -354,7 +630,7 @@ async function handleAuthRefresh(request, service, env, corsHeaders) {
   } else if (service === 'youtube') {
     const body = new URLSearchParams({
       grant_type: 'refresh_token',
-      refresh_token: refreshToken,
+      refresh_token: session.refreshToken,
       client_id: env.YOUTUBE_CLIENT_ID,
       client_secret: env.YOUTUBE_CLIENT_SECRET,
     });
@@ -368,78 +644,217 @@ async function handleAuthRefresh(request, service, env, corsHeaders) {
   }
  
   if (tokenData.error) {
-    return new Response(JSON.stringify(tokenData), { status: 400, headers: corsHeaders });
+    // Revoked or expired at the provider: the session is useless from now on
+    if (tokenData.error === 'invalid_grant') {
+      await deleteSessionTokens(env, sessionId, service);
+    }
+    return new Response(JSON.stringify({ error: tokenData.error }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
   }
+
+  // Providers may rotate the refresh token; also renews the session TTL
+  await saveSessionTokens(env, sessionId, service, { refreshToken: tokenData.refresh_token || session.refreshToken });
   
-  return new Response(JSON.stringify(tokenData), { 
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+  return new Response(JSON.stringify({
+    access_token: tokenData.access_token,
+    expires_in: tokenData.expires_in,
+    token_type: tokenData.token_type
+  }), { 
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store', 'Set-Cookie': sessionCookie(sessionId) } 
   });
 }
 
-async function handleAnalyze(artist, title, env, corsHeaders) {
-  if (!env.GROQ_API_KEY) {
-    return new Response(JSON.stringify({ error: 'Groq API key not configured' }), { 
-      status: 500, 
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+async function handleAuthLogout(request, service, env, corsHeaders) {
+  const sessionId = getSessionId(request);
+  const session = await getSessionTokens(env, sessionId, service);
+  let revoked = false;
+
+  // Google supports token revocation; Spotify has no revocation endpoint
+  // (users can remove the app at spotify.com/account/apps)
+  if (session?.refreshToken && service === 'youtube') {
+    const resp = await fetch('https://oauth2.googleapis.com/revoke', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ token: session.refreshToken })
     });
+    revoked = resp.ok;
   }
 
-  const GROQ_API_URL = "https://api.groq.com/openai/v1/chat/completions";
-  const GROQ_MODEL = "llama-3.1-8b-instant";
+  const headers = new Headers({ ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  if (sessionId) {
+    await deleteSessionTokens(env, sessionId, service);
+    if (!(await hasAnySessionTokens(env, sessionId))) {
+      headers.append('Set-Cookie', clearSessionCookie());
+    }
+  }
 
-  const prompt =
-    `Schrijf in het Nederlands een korte, enthousiaste uitleg (max 80 woorden) ` +
-    `over waarom het nummer "${title}" van "${artist}" zo populair is in de Top 2000. ` +
-    `Focus op emotie, nostalgie, mee-zingen of historische betekenis. En deel triviant weetjes over deze track.`;
+  return new Response(JSON.stringify({ success: true, revoked }), { headers });
+}
 
-  try {
-    const response = await fetch(GROQ_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${env.GROQ_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: GROQ_MODEL,
-        messages: [
-          {
-            role: "system",
-            content:
-              "Je bent een Nederlandse muziekjournalist die korte, vlotte teksten schrijft over Top 2000-nummers.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        temperature: 0.8,
-        max_tokens: 150,
-      }),
+const ANALYSIS_SAMPLING = { temperature: 0.7, maxTokens: 400 };
+
+// Checks shared by /analyze and /analyze/stream. Returns { response } when the
+// request is answered without calling an LLM: an error (such as a song that is
+// not in the dataset), a cached analysis or the fallback once the daily budget
+// is spent.
+async function prepareAnalysis(request, artist, title, lang, regenerate, env, corsHeaders) {
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+  // Regenerating overwrites the cached analysis, so only admins may do it
+  if (regenerate && !(await isAdminRequest(request, env))) {
+    return { response: new Response(JSON.stringify({ error: 'Regenerating an analysis requires an admin token' }), {
+      status: 401,
+      headers: { ...jsonHeaders, 'WWW-Authenticate': 'Bearer' }
+    }) };
+  }
+
+  // 1. Try Cache (per song, language and prompt version)
+  if (!regenerate) {
+    const cached = await getCachedAnalysis(env, artist, title, lang);
+    if (cached) return { cached };
+  }
+
+  // Analyses are kept without expiry, so only songs in the dataset get one
+  const { songs, song } = await findStoredSong(env, artist, title);
+  if (!songs) {
+    return { response: new Response(JSON.stringify({ error: 'Dataset not available' }), { status: 503, headers: jsonHeaders }) };
+  }
+  if (!song) {
+    return { response: new Response(JSON.stringify({ error: 'Unknown song' }), { status: 404, headers: jsonHeaders }) };
+  }
+
+  // Only cache misses reach an LLM, so only they count towards the rate limit
+  const limit = await checkRateLimit(env, request, 'analyze');
+  if (!limit.allowed) {
+    return { response: rateLimitResponse(limit.retryAfter, corsHeaders) };
+  }
+
+  // Daily LLM budget spent: serve the generic text instead (not cached)
+  if (!(await reserveBudget(env, 'llm'))) {
+    return { fallback: { ...fallbackAnalysis(artist, title, lang), lang, fallback: true } };
+  }
+
+  return {};
+}
+
+// Template answers are returned but never cached, so the song gets a real
+// analysis once a remote provider is reachable again.
+const finishAnalysis = async (env, artist, title, lang, analysis, result) => result.offline
+  ? { ...analysis, lang, provider: result.provider, model: result.model, fallback: true }
+  : await saveAnalysis(env, artist, title, lang, analysis, result);
+
+async function handleAnalyze(request, artist, title, lang, regenerate, env, corsHeaders) {
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+  const prepared = await prepareAnalysis(request, artist, title, lang, regenerate, env, corsHeaders);
+  if (prepared.response) return prepared.response;
+  if (prepared.cached) {
+    return new Response(JSON.stringify(prepared.cached), {
+      headers: { ...jsonHeaders, 'X-Cache': 'HIT' }
+    });
+  }
+  if (prepared.fallback) {
+    return new Response(JSON.stringify(prepared.fallback), {
+      headers: { ...jsonHeaders, 'X-Fallback': 'budget' }
     });
+  }
 
-    if (!response.ok) {
-      const errText = await response.text();
-      throw new Error(`Groq API error: ${response.status} ${errText}`);
-    }
+  try {
+    const result = await completeChat(env, {
+      messages: buildAnalysisMessages(artist, title, lang),
+      ...ANALYSIS_SAMPLING,
+      template: analysisTemplate(artist, title, lang),
+      accept: text => Boolean(parseAnalysis(text))
+    });
 
-    const data = await response.json();
-    const text =
-      data?.choices?.[0]?.message?.content?.trim() ??
-      "";
+    // 2. Store in Cache (no expiry; a new prompt version starts a new cache)
+    const entry = await finishAnalysis(env, artist, title, lang, parseAnalysis(result.text), result);
 
-    return new Response(JSON.stringify({ text }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    return new Response(JSON.stringify(entry), {
+      headers: { ...jsonHeaders, 'X-Cache': 'MISS', ...(result.offline ? { 'X-Fallback': 'template' } : {}) }
     });
 
   } catch (error) {
     return new Response(JSON.stringify({ error: error.message }), { 
         status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        headers: jsonHeaders
+    });
+  }
+}
+
+const sseEvent = (event, data) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+// Server-Sent Events variant of /analyze. Events:
+//   token    { text }  - next piece of the generated text
+//   analysis { ... }   - the finished, structured analysis (same shape as /analyze)
+//   error    { error } - generation failed after the stream started
+//   done     {}
+// Cached and fallback analyses are sent as a single analysis event.
+async function handleAnalyzeStream(request, artist, title, lang, regenerate, env, corsHeaders) {
+  const sseHeaders = { ...corsHeaders, 'Content-Type': 'text/event-stream; charset=utf-8', 'Cache-Control': 'no-cache' };
+
+  const prepared = await prepareAnalysis(request, artist, title, lang, regenerate, env, corsHeaders);
+  if (prepared.response) return prepared.response;
+  if (prepared.cached || prepared.fallback) {
+    return new Response(sseEvent('analysis', prepared.cached || prepared.fallback) + sseEvent('done', {}), {
+      headers: { ...sseHeaders, ...(prepared.cached ? { 'X-Cache': 'HIT' } : { 'X-Fallback': 'budget' }) }
+    });
+  }
+
+  // Aborted when the client goes away, so the provider stops generating as well
+  const upstream = new AbortController();
+  let result;
+  try {
+    result = await streamChat(env, {
+      messages: buildAnalysisMessages(artist, title, lang),
+      ...ANALYSIS_SAMPLING,
+      template: analysisTemplate(artist, title, lang),
+      signal: upstream.signal
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 502,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     });
   }
+
+  const { readable, writable } = new TransformStream();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+  const send = (event, data) => writer.write(encoder.encode(sseEvent(event, data)));
+
+  const pump = async () => {
+    let text = '';
+    try {
+      for await (const delta of result.tokens) {
+        text += delta;
+        await send('token', { text: delta });
+      }
+
+      const analysis = parseAnalysis(text);
+      if (!analysis) throw new Error(`${result.provider} returned an invalid analysis`);
+
+      await send('analysis', await finishAnalysis(env, artist, title, lang, analysis, result));
+      await send('done', {});
+      await writer.close();
+    } catch (error) {
+      // Writing fails once the client has disconnected; stop the upstream too
+      upstream.abort();
+      try {
+        await send('error', { error: error.message });
+        await writer.close();
+      } catch (e) {
+        // Client already gone
+      }
+    }
+  };
+  pump();
+
+  return new Response(readable, {
+    headers: { ...sseHeaders, 'X-Cache': 'MISS', ...(result.offline ? { 'X-Fallback': 'template' } : {}) }
+  });
 }
 
-async function handleYouTubeSearch(artist, title, env, corsHeaders) {
+async function handleYouTubeSearch(request, artist, title, env, corsHeaders) {
   if (!env.YOUTUBE_API_KEY) {
     return new Response(JSON.stringify({ error: 'YouTube API key not configured' }), { 
       status: 500, 
@@ -447,67 +862,40 @@ async function handleYouTubeSearch(artist, title, env, corsHeaders) {
     });
   }
 
-  // Changed cache key to invalidate old non-channel-restricted results
-  const cacheKey = `youtube-v2:${artist.toLowerCase()}:${title.toLowerCase()}`.replace(/\s+/g, '-');
-  
-  // 1. Try Cache
-  const cached = await env.ITUNES_CACHE.get(cacheKey, 'json');
+  // 1. Try Cache (filled by earlier searches and the enrichment job)
+  const cached = await getCachedYouTube(env, artist, title);
   if (cached) {
     return new Response(JSON.stringify(cached), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json', 'X-Cache': 'HIT' }
     });
   }
 
-  // 2. Get Channel ID (Cached)
-  let channelId = await env.ITUNES_CACHE.get('channel_id:Top2000agogo');
-  if (!channelId) {
-     try {
-       const channelUrl = `https://www.googleapis.com/youtube/v3/channels?part=id&forHandle=Top2000agogo&key=${env.YOUTUBE_API_KEY}`;
-       const channelResp = await fetch(channelUrl);
-       const channelData = await channelResp.json();
-       channelId = channelData.items?.[0]?.id;
-       
-       if (channelId) {
-         await env.ITUNES_CACHE.put('channel_id:Top2000agogo', channelId);
-       }
-     } catch (e) {
-       console.error('Failed to fetch channel ID:', e);
-     }
-  }
-
-  // 3. Fetch from YouTube API
-  const q = `${artist} ${title}`;
-  let url = `https://www.googleapis.com/youtube/v3/search?part=snippet&q=${encodeURIComponent(q)}&type=video&maxResults=1&key=${env.YOUTUBE_API_KEY}`;
-  
-  if (channelId) {
-    url += `&channelId=${channelId}`;
-  } else {
-    // Fallback if channel ID fetch failed
-    url = `https://www.googleapis.com/youtube/v3/search?part=snippet&q=${encodeURIComponent(q + ' Top 2000 a gogo')}&type=video&maxResults=1&key=${env.YOUTUBE_API_KEY}`;
+  // Only searches that reach YouTube count against the client's limit
+  const limit = await checkRateLimit(env, request, 'youtube');
+  if (!limit.allowed) {
+    return rateLimitResponse(limit.retryAfter, corsHeaders);
   }
 
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-        const errText = await response.text();
-        throw new Error(`YouTube API error: ${response.status} ${errText}`);
-    }
-
-    const data = await response.json();
-    const item = data.items?.[0];
+  // Cache miss while the daily YouTube quota budget is spent: the client can
+  // still open a regular YouTube search
+  if (!(await reserveBudget(env, 'youtube', YOUTUBE_SEARCH_COST))) {
+    const retryAfter = budgetRetryAfter();
+    const searchUrl = `https://www.youtube.com/results?search_query=${encodeURIComponent(`${artist} ${title} Top 2000 a gogo`)}`;
+    return new Response(JSON.stringify({ error: 'YouTube search budget exhausted', searchUrl }), {
+      status: 503,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'X-Fallback': 'budget', 'Retry-After': String(retryAfter) }
+    });
+  }
 
-    if (!item) {
+  // 2. Fetch from YouTube API (see youtube.ts)
+  try {
+    const result = await searchYouTube(env, artist, title);
+    if (!result) {
         return new Response('Not Found', { status: 404, headers: corsHeaders });
     }
 
-    const result = {
-        videoId: item.id.videoId,
-        title: item.snippet.title,
-        thumbnail: item.snippet.thumbnails?.high?.url || item.snippet.thumbnails?.default?.url
-    };
-
-    // 4. Store in Cache (30 days)
-    await env.ITUNES_CACHE.put(cacheKey, JSON.stringify(result), { expirationTtl: 60 * 60 * 24 * 30 });
+    // 3. Store in Cache (30 days)
+    await saveYouTube(env, artist, title, result);
 
     return new Response(JSON.stringify(result), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json', 'X-Cache': 'MISS' }
@@ -522,18 +910,17 @@ async function handleYouTubeSearch(artist, title, env, corsHeaders) {
 }
 
 // ... Playlist Export Handler (XSPF/JSON)
-async function handlePlaylistExport(env, corsHeaders, year, format = 'xspf') {
-  const CACHE_KEY = 'top2000_alltime_data_v1';
-  
+async function handlePlaylistExport(env, corsHeaders, year, format = 'xspf', scoring = getScoringModel(DEFAULT_SCORING_MODEL), range: { from?: number, to?: number } = {}, slice: { start?: number, end?: number } = {}) {
   // 1. Get Data from Cache
-  let songs = await env.ITUNES_CACHE.get(CACHE_KEY, 'json');
-  
-  if (!songs) {
-     try {
-         songs = await updateTop2000Data(env);
-     } catch (e) {
-         return new Response(`Error fetching data: ${e.message}`, { status: 500, headers: corsHeaders });
-     }
+  let songs;
+  try {
+      songs = await getTop2000Data(env);
+  } catch (e) {
+      return new Response(`Error fetching data: ${e.message}`, { status: 500, headers: corsHeaders });
+  }
+
+  if (scoring.id !== DEFAULT_SCORING_MODEL || isRangeSet(range)) {
+      songs = rankSongs(songs, scoring.id, range);
   }
 
   // 2. Filter/Sort
@@ -559,87 +946,468 @@ async function handlePlaylistExport(env, corsHeaders, year, format = 'xspf') {
       filteredSongs.sort((a, b) => (a.allTimeRank || 9999) - (b.allTimeRank || 9999));
   }
 
+  // ?limit= / ?range= (list positions)
+  if (slice.start !== undefined) {
+      filteredSongs = filteredSongs.slice(slice.start, slice.end);
+  }
+
+  // Album, duration and ISRC from the enrichment job (overrides included)
+  const [enrichment, isrcOverrides] = await Promise.all([getEnrichmentIndex(env), getIsrcOverrides(env)]);
+  filteredSongs = mergeEnrichment(filteredSongs, enrichment, isrcOverrides);
+
+  // Durations the job has not found yet from the iTunes cache, only for short lists (one KV read per track)
+  if (['m3u8', 'jspf', 'xspf'].includes(format) && filteredSongs.length <= MAX_DURATION_LOOKUPS) {
+      const cached = await Promise.all(filteredSongs.map(song =>
+          env.ITUNES_CACHE.get(itunesCacheKey(song.artist, song.title), 'json').catch(() => null)));
+      filteredSongs = filteredSongs.map((song, i) => !song.durationMs && cached[i]?.durationMs ? { ...song, durationMs: cached[i].durationMs } : song);
+  }
+
   // 3. Generate Output
-  const yearLabel = (year === 'all-time' || !year) ? 'Allertijden' : year;
-
-  if (format === 'json') {
-      const playlist = {
-          title: `Top 2000 ${yearLabel}`,
-          description: `NPO Radio 2 / Top 2000 Allertijden - Export Date: ${new Date().toISOString()}`,
-          tracks: filteredSongs.map(song => ({
-              title: song.title,
-              artist: song.artist,
-              album: song.releaseYear ? `Year: ${song.releaseYear}` : undefined
-          }))
-      };
+  const yearLabel = (year === 'all-time' || !year)
+      ? (isRangeSet(range) ? `Allertijden ${range.from ?? ''}-${range.to ?? ''}` : 'Allertijden')
+      : year;
+  const sliceLabel = slice.start !== undefined ? ` ${slice.start + 1}-${slice.start + filteredSongs.length}` : '';
+
+  const editions = Array.from(new Set<string>(songs.flatMap(s => Object.keys(s.rankings || {})))).sort();
+  const { body, contentType } = renderPlaylist(format, filteredSongs, {
+      title: `Top 2000 ${yearLabel}${sliceLabel}`,
+      scoring,
+      date: new Date().toISOString(),
+      editions
+  });
 
-      const filename = `Top2000-${yearLabel}.json`;
-      return new Response(JSON.stringify(playlist, null, 2), {
-          headers: {
-              ...corsHeaders,
-              'Content-Type': 'application/json; charset=utf-8',
-              'Content-Disposition': `attachment; filename="${filename}"`
-          }
+  const filename = `Top2000-${yearLabel}${sliceLabel.replace(' ', '_')}.${format}`;
+  return new Response(body, {
+      headers: {
+          ...corsHeaders,
+          'Content-Type': contentType,
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'X-Scoring-Model': scoring.id
+      }
+  });
+}
+
+// --- Song / Artist Detail Handlers ---
+
+async function handleSongDetail(env, corsHeaders, id) {
+  let songs;
+  try {
+      songs = await getTop2000Data(env);
+  } catch (e) {
+      return new Response(JSON.stringify({ error: e.message }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
   }
-  
-  // Default: XSPF (XML)
-  const escapeXml = (unsafe) => {
-      if (!unsafe) return '';
-      return unsafe.toString()
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')
-        .replace(/"/g, '&quot;')
-        .replace(/'/g, '&apos;');
+
+  // Ids from before the canonical identity layer resolve through the alias index
+  let song = songs.find(s => s.id === id);
+  if (!song) {
+      const canonicalId = resolveAlias(await getIdAliases(env), id);
+      song = songs.find(s => s.id === canonicalId);
+  }
+  if (!song) {
+      return new Response(JSON.stringify({ error: 'Song not found', id }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+  }
+
+  const history = computeAllTimeRankHistory(songs);
+  return new Response(JSON.stringify({ ...song, stats: getSongStats(song, history) }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=3600' }
+  });
+}
+
+async function handleArtistDetail(env, corsHeaders, name) {
+  let songs;
+  try {
+      songs = await getTop2000Data(env);
+  } catch (e) {
+      return new Response(JSON.stringify({ error: e.message }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+  }
+
+  const needle = name.trim().toLowerCase();
+  const artistSongs = songs
+      .filter(s => s.artist.trim().toLowerCase() === needle)
+      .sort((a, b) => (a.allTimeRank || 9999) - (b.allTimeRank || 9999));
+
+  if (artistSongs.length === 0) {
+      return new Response(JSON.stringify({ error: 'Artist not found', name }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+  }
+
+  const history = computeAllTimeRankHistory(songs);
+  const withStats = artistSongs.map(song => ({ ...song, stats: getSongStats(song, history) }));
+  const bestRanks = withStats.map(s => s.stats.peakRank).filter(r => r !== null);
+
+  const result = {
+      artist: artistSongs[0].artist,
+      stats: {
+          songCount: withStats.length,
+          bestAllTimeRank: artistSongs[0].allTimeRank ?? null,
+          peakRank: bestRanks.length > 0 ? Math.min(...bestRanks) : null,
+          appearances: withStats.reduce((sum, s) => sum + s.stats.appearances, 0),
+          totalScore: withStats.reduce((sum, s) => sum + (s.totalScore || 0), 0)
+      },
+      songs: withStats
   };
 
-  const xmlParts = [
-    '<?xml version="1.0" encoding="UTF-8"?>',
-    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
-    `  <title>Top 2000 ${yearLabel}</title>`,
-    `  <creator>NPO Radio 2 / Top 2000 Allertijden</creator>`,
-    `  <date>${new Date().toISOString()}</date>`,
-    '  <trackList>'
-  ];
-  
-  filteredSongs.forEach(song => {
-      xmlParts.push('    <track>');
-      xmlParts.push(`      <title>${escapeXml(song.title)}</title>`);
-      xmlParts.push(`      <creator>${escapeXml(song.artist)}</creator>`);
-      if (song.releaseYear) {
-           xmlParts.push(`      <annotation>Year: ${song.releaseYear}</annotation>`);
-      }
-      xmlParts.push('    </track>');
+  return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=3600' }
   });
-  
-  xmlParts.push('  </trackList>');
-  xmlParts.push('</playlist>');
+}
 
-  const xmlContent = xmlParts.join('\n');
-  const filename = `Top2000-${yearLabel}.xspf`;
+// --- Snapshot Handlers ---
 
-  return new Response(xmlContent, {
-      headers: {
-          ...corsHeaders,
-          'Content-Type': 'application/xspf+xml; charset=utf-8',
-          'Content-Disposition': `attachment; filename="${filename}"`
+async function handleSnapshotList(env, corsHeaders) {
+  const snapshots = await listSnapshots(env);
+  return new Response(JSON.stringify(snapshots), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=300' }
+  });
+}
+
+async function handleSnapshotDiff(env, corsHeaders, fromRef, toRef) {
+  const snapshots = await listSnapshots(env);
+  if (snapshots.length === 0) {
+      return new Response(JSON.stringify({ error: 'No snapshots available' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+  }
+
+  // Defaults: compare the latest snapshot with the one before it
+  const toId = toRef ? resolveSnapshotId(snapshots, toRef) : snapshots[snapshots.length - 1].id;
+  let fromId = fromRef ? resolveSnapshotId(snapshots, fromRef) : null;
+  if (!fromRef && toId) {
+      const toIndex = snapshots.findIndex(s => s.id === toId);
+      fromId = toIndex > 0 ? snapshots[toIndex - 1].id : null;
+  }
+
+  if (!fromId || !toId) {
+      return new Response(JSON.stringify({ error: 'Snapshot not found', from: fromRef, to: toRef }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+  }
+
+  const [fromSongs, toSongs] = await Promise.all([getSnapshot(env, fromId), getSnapshot(env, toId)]);
+  if (!fromSongs || !toSongs) {
+      return new Response(JSON.stringify({ error: 'Snapshot data missing' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+  }
+
+  const diff = diffSnapshots(fromSongs, toSongs, await getIdAliases(env));
+  return new Response(JSON.stringify({ from: fromId, to: toId, ...diff }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=3600' }
+  });
+}
+
+async function handleRejectedList(env, corsHeaders) {
+  const rejected = await listRejectedScrapes(env);
+  return new Response(JSON.stringify(rejected), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' }
+  });
+}
+
+async function handleRejectedDetail(env, corsHeaders, id) {
+  const record = await getRejectedScrape(env, id);
+  if (!record) {
+      return new Response(JSON.stringify({ error: 'Rejected scrape not found', id }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+  }
+  return new Response(JSON.stringify(record), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' }
+  });
+}
+
+// ... Ask the Top 2000: the question becomes a validated SongFilter (see ask.ts),
+// which is applied to the ranked list. The filter is returned as well, so the
+// frontend can apply it to its own list and put it in the URL.
+async function handleAsk(request, env, corsHeaders, question, scoring = getScoringModel(DEFAULT_SCORING_MODEL), range: { from?: number, to?: number } = {}) {
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+  if (!question || !question.trim() || question.length > MAX_QUESTION_LENGTH) {
+      return new Response(JSON.stringify({ error: `Missing question, expected ?q= with at most ${MAX_QUESTION_LENGTH} characters` }), {
+          status: 400,
+          headers: jsonHeaders
+      });
+  }
+
+  let songs;
+  try {
+      const data = await getTop2000Data(env);
+      const [enrichment, isrcOverrides] = await Promise.all([getEnrichmentIndex(env), getIsrcOverrides(env)]);
+      songs = mergeEnrichment(scoring.id === DEFAULT_SCORING_MODEL && !isRangeSet(range) ? data : rankSongs(data, scoring.id, range), enrichment, isrcOverrides);
+  } catch (e) {
+      return new Response(JSON.stringify({ error: e.message }), { status: 500, headers: jsonHeaders });
+  }
+  const editions = Object.keys(songs[0]?.rankings || {}).sort();
+  const template = () => JSON.stringify(heuristicFilter(question, editions));
+
+  // 1. Try Cache (filters per question; checked again against today's editions)
+  let entry = await getCachedFilter(env, question);
+  if (entry) {
+      const { filter, errors } = validateSongFilter(entry.filter, editions);
+      entry = errors.length === 0 ? { ...entry, filter } : null;
+  }
+  const cacheStatus = entry ? 'HIT' : 'MISS';
+  let fallback = null;
+
+  if (!entry) {
+      const limit = await checkRateLimit(env, request, 'ask');
+      if (!limit.allowed) {
+          return rateLimitResponse(limit.retryAfter, corsHeaders);
+      }
+
+      let result;
+      if (await reserveBudget(env, 'llm')) {
+          try {
+              result = await completeChat(env, {
+                  messages: buildAskMessages(question, editions),
+                  temperature: 0,
+                  maxTokens: 200,
+                  template,
+                  accept: text => Boolean(parseFilterAnswer(text, editions))
+              });
+          } catch (e) {
+              return new Response(JSON.stringify({ error: e.message }), { status: 502, headers: jsonHeaders });
+          }
+      } else {
+          // Daily LLM budget spent: keyword-based filter only
+          result = { text: template(), provider: TEMPLATE_PROVIDER, model: TEMPLATE_PROVIDER, offline: true };
+          fallback = 'budget';
+      }
+
+      entry = { filter: parseFilterAnswer(result.text, editions), provider: result.provider, model: result.model };
+      if (result.offline) {
+          fallback = fallback || 'template';
+      } else if (entry.filter) {
+          // 2. Store in Cache (keyword-based answers are not cached)
+          await saveFilter(env, question, entry);
+      }
+  }
+
+  if (!entry.filter) {
+      return new Response(JSON.stringify({ error: 'Could not turn the question into a filter', question }), {
+          status: 422,
+          headers: jsonHeaders
+      });
+  }
+
+  const matches = applySongFilter(songs, entry.filter);
+  return new Response(JSON.stringify({
+      question,
+      filter: entry.filter,
+      description: describeSongFilter(entry.filter),
+      total: matches.length,
+      songs: matches,
+      provider: entry.provider,
+      model: entry.model
+  }), {
+      headers: { ...jsonHeaders, 'X-Cache': cacheStatus, 'X-Scoring-Model': scoring.id, ...(fallback ? { 'X-Fallback': fallback } : {}) }
+  });
+}
+
+// ... Edition recap; the narrative is generated once and kept (admins can regenerate it)
+async function handleRecap(request, env, corsHeaders, year, withNarrative = false, regenerate = false) {
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+  let songs;
+  try {
+      // Backfilled release years count in the average year and the decades
+      songs = mergeEnrichment(await getTop2000Data(env), await getEnrichmentIndex(env));
+  } catch (e) {
+      return new Response(JSON.stringify({ error: e.message }), { status: 500, headers: jsonHeaders });
+  }
+
+  const recap = await getRecap(env, songs, year, await getLatestSnapshotId(env));
+  if (!recap) {
+      return new Response(JSON.stringify({ error: 'Edition not found', editions: getEditions(songs) }), {
+          status: 404,
+          headers: jsonHeaders
+      });
+  }
+
+  if (!withNarrative) {
+      return new Response(JSON.stringify(recap), {
+          headers: { ...jsonHeaders, 'Cache-Control': 'public, max-age=3600' }
+      });
+  }
+
+  if (regenerate && !(await isAdminRequest(request, env))) {
+      return new Response(JSON.stringify({ error: 'Regenerating a narrative requires an admin token' }), {
+          status: 401,
+          headers: { ...jsonHeaders, 'WWW-Authenticate': 'Bearer' }
+      });
+  }
+
+  // An edition that is still being filled in gets the template, unstored
+  if (!isEditionComplete(recap)) {
+      const narrative = { text: narrativeTemplate(recap)(), provider: TEMPLATE_PROVIDER, model: TEMPLATE_PROVIDER, fallback: true };
+      return new Response(JSON.stringify({ ...recap, narrative }), {
+          headers: { ...jsonHeaders, 'X-Fallback': 'incomplete' }
+      });
+  }
+
+  let narrative = regenerate ? null : await getNarrative(env, recap);
+  if (!narrative) {
+      const limit = await checkRateLimit(env, request, 'narrative');
+      if (!limit.allowed) {
+          return rateLimitResponse(limit.retryAfter, corsHeaders);
       }
+
+      const template = narrativeTemplate(recap);
+      let result;
+      try {
+          result = await reserveBudget(env, 'llm')
+              ? await completeChat(env, { messages: buildNarrativeMessages(recap), temperature: 0.7, maxTokens: 500, template })
+              : { text: template(), provider: TEMPLATE_PROVIDER, model: TEMPLATE_PROVIDER, offline: true };
+      } catch (e) {
+          return new Response(JSON.stringify({ error: e.message }), { status: 502, headers: jsonHeaders });
+      }
+
+      // Template narratives are not stored, so a written one follows once an LLM is reachable
+      narrative = result.offline
+          ? { text: result.text, provider: result.provider, model: result.model, fallback: true }
+          : await saveNarrative(env, recap, { text: result.text, provider: result.provider, model: result.model });
+  }
+
+  return new Response(JSON.stringify({ ...recap, narrative }), {
+      headers: jsonHeaders
+  });
+}
+
+// ... Metadata enrichment (enrichment.ts)
+async function runScheduledEnrichment(env) {
+  const songs = await env.ITUNES_CACHE.get('top2000_alltime_data_v1', 'json') || await getLatestSnapshot(env);
+  if (!songs) {
+      console.log('Enrichment skipped: no dataset yet.');
+      return null;
+  }
+  return await runEnrichment(env, songs);
+}
+
+async function handleEnrichment(request, env, corsHeaders) {
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+  if (request.method === 'POST') {
+      if (!(await isAdminRequest(request, env))) {
+          return new Response(JSON.stringify({ error: 'Running the enrichment job requires an admin token' }), {
+              status: 401,
+              headers: { ...jsonHeaders, 'WWW-Authenticate': 'Bearer' }
+          });
+      }
+      const state = await runScheduledEnrichment(env);
+      if (!state) {
+          return new Response(JSON.stringify({ error: 'No dataset to enrich' }), { status: 503, headers: jsonHeaders });
+      }
+      return new Response(JSON.stringify(state), { headers: jsonHeaders });
+  }
+
+  const state = await getEnrichmentState(env);
+  return new Response(JSON.stringify(state || { lastRun: null }), { headers: jsonHeaders });
+}
+
+// Songs with a manual ISRC, next to the code the enrichment job resolved
+async function handleIsrcOverrides(env, corsHeaders) {
+  const [overrides, index] = await Promise.all([getIsrcOverrides(env), getEnrichmentIndex(env)]);
+  const songs = await env.ITUNES_CACHE.get('top2000_alltime_data_v1', 'json') || await getLatestSnapshot(env) || [];
+  const result = Object.entries(overrides).map(([id, isrc]) => {
+      const song = songs.find(s => s.id === id);
+      return {
+          id,
+          artist: song?.artist ?? null,
+          title: song?.title ?? null,
+          isrc,
+          resolved: index[id]?.isrc ?? null,
+          resolvedSource: index[id]?.isrcSource ?? null
+      };
+  });
+
+  return new Response(JSON.stringify({ overrides: result }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// PUT { isrc } sets the ISRC of a song by hand; DELETE goes back to the resolved one
+async function handleIsrcOverride(request, env, corsHeaders, id) {
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+  const refuse = (status, error) => new Response(JSON.stringify({ error }), { status, headers: jsonHeaders });
+
+  if (!(await isAdminRequest(request, env))) {
+      return new Response(JSON.stringify({ error: 'Changing ISRC overrides requires an admin token' }), {
+          status: 401,
+          headers: { ...jsonHeaders, 'WWW-Authenticate': 'Bearer' }
+      });
+  }
+
+  let isrc = null;
+  if (request.method === 'PUT') {
+      let body;
+      try {
+          body = await request.json();
+      } catch (e) {
+          return refuse(400, 'Body must be JSON');
+      }
+      isrc = normalizeIsrc(body?.isrc);
+      if (!isrc) {
+          return refuse(400, 'isrc must be an ISRC like NLA012300001');
+      }
+
+      // Only songs in the dataset (the stored one, so this never triggers a scrape)
+      const songs = await env.ITUNES_CACHE.get('top2000_alltime_data_v1', 'json') || await getLatestSnapshot(env);
+      if (!songs) {
+          return refuse(503, 'Dataset not available');
+      }
+      if (!songs.some(song => song.id === id)) {
+          return refuse(404, 'Unknown song');
+      }
+  }
+
+  await setIsrcOverride(env, id, isrc);
+  return new Response(JSON.stringify({ id, isrc }), { headers: jsonHeaders });
+}
+
+// Years the enrichment job resolved: the ones that fill in a missing Wikipedia
+// year, the ones that contradict it, and songs no source has a year for
+async function handleReleaseYears(env, corsHeaders) {
+  const [state, index] = await Promise.all([getEnrichmentState(env), getEnrichmentIndex(env)]);
+  const songs = await env.ITUNES_CACHE.get('top2000_alltime_data_v1', 'json') || await getLatestSnapshot(env) || [];
+
+  return new Response(JSON.stringify({ lastRun: state?.lastRun ?? null, ...releaseYearReview(songs, index) }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
   });
 }
 
 // --- Top 2000 Data Logic ---
 
-async function handleTop2000Data(env, corsHeaders, forceRefresh = false) {
+async function handleTop2000Data(env, corsHeaders, forceRefresh = false, scoring = getScoringModel(DEFAULT_SCORING_MODEL), range: { from?: number, to?: number } = {}) {
   const CACHE_KEY = 'top2000_alltime_data_v1';
   const CACHE_TTL = 60 * 60 * 24; // 1 day
 
+  // Non-default models and year windows are derived from the stored (linear, all editions) dataset.
+  // Covers, previews, ISRCs and YouTube ids from the enrichment job are added on the way out.
+  const [enrichment, isrcOverrides] = await Promise.all([getEnrichmentIndex(env), getIsrcOverrides(env)]);
+  const applyScoring = (data) => mergeEnrichment(scoring.id === DEFAULT_SCORING_MODEL && !isRangeSet(range)
+      ? data
+      : rankSongs(data, scoring.id, range), enrichment, isrcOverrides);
+
   // 1. Try Cache (if not forced)
   if (!forceRefresh) {
       const cached = await env.ITUNES_CACHE.get(CACHE_KEY, 'json');
       if (cached) {
-        return new Response(JSON.stringify(cached), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json', 'X-Cache': 'HIT', 'Cache-Control': 'public, max-age=3600' }
+        return new Response(JSON.stringify(applyScoring(cached)), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json', 'X-Cache': 'HIT', 'X-Scoring-Model': scoring.id, 'Cache-Control': 'public, max-age=3600' }
         });
       }
   }
@@ -648,8 +1416,8 @@ async function handleTop2000Data(env, corsHeaders, forceRefresh = false) {
       // 2. Refresh Data
       const data = await updateTop2000Data(env);
       
-      return new Response(JSON.stringify(data), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json', 'X-Cache': 'MISS' }
+      return new Response(JSON.stringify(applyScoring(data)), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json', 'X-Cache': 'MISS', 'X-Scoring-Model': scoring.id }
       });
   } catch (e) {
       return new Response(JSON.stringify({ error: e.message }), { 
@@ -659,97 +1427,65 @@ async function handleTop2000Data(env, corsHeaders, forceRefresh = false) {
   }
 }
 
+// Parses ?from=&to= into { from?, to? }; returns null when the range is invalid
+function parseYearRange(searchParams) {
+    const range: { from?: number, to?: number } = {};
+    for (const key of ['from', 'to']) {
+        const value = searchParams.get(key);
+        if (value === null || value === '') continue;
+        if (!/^\d{4}$/.test(value)) return null;
+        range[key] = parseInt(value);
+    }
+    if (range.from !== undefined && range.to !== undefined && range.from > range.to) return null;
+    return range;
+}
+
+const isRangeSet = (range) => range.from !== undefined || range.to !== undefined;
+
+// Returns the cached dataset, scraping a fresh one on a cache miss
+async function getTop2000Data(env) {
+    const CACHE_KEY = 'top2000_alltime_data_v1';
+    const cached = await env.ITUNES_CACHE.get(CACHE_KEY, 'json');
+    if (cached) return cached;
+    return await updateTop2000Data(env);
+}
+
 async function updateTop2000Data(env) {
     console.log("Starting Top 2000 Data Update...");
     const CACHE_KEY = 'top2000_alltime_data_v1';
     const CACHE_TTL = 60 * 60 * 24; // 1 day
 
-    // 1. Fetch Wikipedia Data
-    const rawSongs = await scrapeWikipediaDataWorker();
+    // 1. Fetch Wikipedia Data (canonical names/ids, split histories merged)
+    const { songs: rawSongs, aliases } = canonicalizeSongs(await scrapeWikipediaDataWorker());
     
     if (rawSongs.length === 0) {
         throw new Error("No data scraped from Wikipedia");
     }
 
-    // 2. Calculate Scores (Reusing logic from App.tsx)
-    
-    // Determine the effective data range
-    let maxYear = 0;
-    let maxYearCount = 0;
-    
-    const allYears = new Set();
-    rawSongs.forEach(s => {
-       Object.keys(s.rankings).forEach(y => {
-           const yInt = parseInt(y);
-           if(!isNaN(yInt)) allYears.add(yInt);
-       });
-    });
-    
-    if (allYears.size > 0) {
-       maxYear = Math.max(...Array.from(allYears));
-       maxYearCount = rawSongs.filter(s => s.rankings[maxYear.toString()] !== undefined && s.rankings[maxYear.toString()] !== null).length;
-    }
+    // 2. Validate against the last good dataset (cache, or the latest snapshot once the cache expired)
+    const previousSongs = await env.ITUNES_CACHE.get(CACHE_KEY, 'json') || await getLatestSnapshot(env);
+    const validation = validateScrape(rawSongs, previousSongs);
 
-    const isLatestYearIncomplete = maxYearCount < 1500;
-    const effectiveAllTimeYear = isLatestYearIncomplete ? maxYear - 1 : maxYear;
-    
-    const calculateScoreForYear = (rank) => {
-        if (rank !== null && rank !== undefined && rank > 0 && rank <= 2000) {
-            return 2001 - rank;
+    if (!validation.valid) {
+        await recordRejectedScrape(env, rawSongs, validation);
+        if (!previousSongs) {
+            throw new Error(`Scrape rejected: ${validation.reasons.join('; ')}`);
         }
-        return 0;
-    };
-
-    const calculateAllTimeScore = (song, limitYear) => {
-        let score = 0;
-        Object.entries(song.rankings).forEach(([yearStr, rank]) => {
-            const year = parseInt(yearStr);
-            if (limitYear !== undefined && year > limitYear) return;
-            score += calculateScoreForYear(rank);
-        });
-        return score;
-    };
-
-    // Calculate scores
-    let scoredSongs = rawSongs.map(song => {
-      const totalScore = calculateAllTimeScore(song, effectiveAllTimeYear);
-      const previousTotalScore = calculateAllTimeScore(song, effectiveAllTimeYear - 1);
-      
-      return {
-          ...song,
-          totalScore,
-          previousTotalScore
-      };
-    });
 
-    // Assign All-Time Ranks (Current Safe Year)
-    scoredSongs.sort((a, b) => (b.totalScore || 0) - (a.totalScore || 0));
-    scoredSongs = scoredSongs.map((song, index) => ({
-      ...song,
-      allTimeRank: index + 1
-    }));
-
-    // Assign All-Time Ranks (Previous Safe Year)
-    const prevSorted = [...scoredSongs].sort((a, b) => (b.previousTotalScore || 0) - (a.previousTotalScore || 0));
-    
-    const prevRankMap = new Map();
-    prevSorted.forEach((song, index) => {
-        if ((song.previousTotalScore || 0) > 0) {
-            prevRankMap.set(song.id, index + 1);
-        }
-    });
+        // Keep serving the last good dataset
+        await env.ITUNES_CACHE.put(CACHE_KEY, JSON.stringify(previousSongs), { expirationTtl: CACHE_TTL });
+        console.log(`Kept previous Top 2000 data (${previousSongs.length} songs).`);
+        return previousSongs;
+    }
 
-    // Merge back
-    const finalSongs = scoredSongs.map(song => {
-        const { previousTotalScore, ...rest } = song; 
-        return {
-            ...rest,
-            previousAllTimeRank: prevRankMap.get(song.id)
-        };
-    });
+    // 3. Calculate Scores (default model; other models are derived on request)
+    const finalSongs = rankSongs(rawSongs, DEFAULT_SCORING_MODEL);
 
-    // 3. Store in KV
+    // 4. Store in KV (plus a dated snapshot for /data/diff)
     await env.ITUNES_CACHE.put(CACHE_KEY, JSON.stringify(finalSongs), { expirationTtl: CACHE_TTL });
+    const snapshotId = await saveSnapshot(env, finalSongs);
+    await saveIdAliases(env, aliases, finalSongs);
+    await updateLatestRecap(env, mergeEnrichment(finalSongs, await getEnrichmentIndex(env)), snapshotId);
     
     console.log(`Updated Top 2000 data with ${finalSongs.length} songs.`);
     return finalSongs;
@@ -788,157 +1524,6 @@ async function scrapeWikipediaDataWorker() {
       throw new Error("Invalid Wikipedia response structure");
     }
 
-    const htmlContent = data.parse.text['*'];
-    
-    // Find the right table
-    // Strategy: Split by <table>...</table>, count max <th> or cells looking like years
-    
-    const tableRegex = /<table[^>]*>([\s\S]*?)<\/table>/gi;
-    let match;
-    let targetTableRows = [];
-    let maxCols = 0;
-
-    while ((match = tableRegex.exec(htmlContent)) !== null) {
-        const tableContent = match[1];
-        // Split rows
-        const rows = tableContent.match(/<tr[^>]*>([\s\S]*?)<\/tr>/gi);
-        if (!rows || rows.length < 5) continue;
-        
-        // Count cols in first few rows
-        let currentMax = 0;
-        for(let r=0; r<Math.min(3, rows.length); r++) {
-            const cells = rows[r].match(/<(td|th)[^>]*>/gi);
-            if (cells) currentMax = Math.max(currentMax, cells.length);
-        }
-
-        if (currentMax > 20 && currentMax > maxCols) {
-            maxCols = currentMax;
-            targetTableRows = rows;
-        }
-    }
-
-    if (targetTableRows.length === 0) {
-        console.error("No suitable table found");
-        return [];
-    }
-
-    // Process Rows
-    // Helper to strip tags
-    const stripTags = (html) => html.replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ').trim();
-    const cleanCell = (cellHtml) => {
-        // Remove refs, style, script
-        let cleaned = cellHtml
-            .replace(/<sup[^>]*>[\s\S]*?<\/sup>/gi, '')
-            .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-            .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-            .replace(/<span class="sortkey"[^>]*>[\s\S]*?<\/span>/gi, '');
-        return stripTags(cleaned);
-    };
-
-    let yearColumnMap = {}; // { colIndex: yearString }
-    let artistIdx = -1;
-    let titleIdx = -1;
-    let releaseYearIdx = -1;
-    let headerRowIndex = 0;
-
-    // Scan for headers
-    for(let r=0; r < Math.min(targetTableRows.length, 5); r++) {
-        const rowHtml = targetTableRows[r];
-        // Extract cells content
-        const cellsMatch = rowHtml.match(/<(th|td)[^>]*>([\s\S]*?)<\/\1>/gi);
-        if (!cellsMatch) continue;
-
-        const cells = cellsMatch.map(c => {
-            const inner = c.match(/<(th|td)[^>]*>([\s\S]*?)<\/\1>/i);
-            return inner ? inner[2] : '';
-        });
-
-        cells.forEach((cellContent, idx) => {
-            const text = cleanCell(cellContent).toLowerCase();
-            
-            if (text.includes('artiest')) artistIdx = idx;
-            if (text.includes('titel') || text === 'nummer') titleIdx = idx;
-            
-            if (text === 'jaar' && !text.match(/\d/)) { 
-                releaseYearIdx = idx;
-            }
-            
-            // Year Detection
-            const yearMatch = text.match(/(?:'|’|^)?(\d{2,4})\b/);
-            if (yearMatch) {
-                let y = parseInt(yearMatch[1]);
-                if (y < 100) y = y >= 90 ? 1900 + y : 2000 + y;
-                
-                if (y >= 1999 && y <= 2030) {
-                    yearColumnMap[idx] = y.toString();
-                }
-            }
-        });
-
-        if (Object.keys(yearColumnMap).length > 5) {
-            headerRowIndex = r;
-            break;
-        }
-    }
-
-    if (artistIdx === -1) artistIdx = 2; 
-    if (titleIdx === -1) titleIdx = 1;
-
-    const songs = [];
-
-    for (let i = headerRowIndex + 1; i < targetTableRows.length; i++) {
-        const rowHtml = targetTableRows[i];
-        // Extract cells content
-        // Note: This regex is simple and might fail on nested tags or specific layouts, 
-        // but for Wikipedia table rows usually <td> content </td> it works ok.
-        const cellsMatch = rowHtml.match(/<td[^>]*>([\s\S]*?)<\/td>/gi);
-        if (!cellsMatch || cellsMatch.length < Math.max(artistIdx, titleIdx)) continue;
-
-        const cells = cellsMatch.map(c => {
-             const inner = c.match(/<td[^>]*>([\s\S]*?)<\/td>/i);
-             return inner ? inner[1] : '';
-        });
-
-        const artist = cleanCell(cells[artistIdx] || '');
-        const title = cleanCell(cells[titleIdx] || '');
-
-        if (!artist || !title) continue;
-
-        let releaseYear = 0;
-        if (releaseYearIdx !== -1) {
-            const val = cleanCell(cells[releaseYearIdx] || '');
-            const y = parseInt(val);
-            if (!isNaN(y) && y > 1900 && y < 2100) releaseYear = y;
-        }
-
-        const rankings = {};
-        let hasData = false;
-
-        Object.keys(yearColumnMap).forEach((colIdxStr) => {
-            const colIdx = parseInt(colIdxStr);
-            const year = yearColumnMap[colIdx];
-            const val = cleanCell(cells[colIdx] || '');
-            
-            const num = parseInt(val.replace(/\./g, ''));
-            if (!isNaN(num) && num > 0) {
-                rankings[year] = num;
-                hasData = true;
-            } else {
-                rankings[year] = null;
-            }
-        });
-
-        if (hasData) {
-            const id = `${artist}-${title}`.toLowerCase().replace(/[^a-z0-9]/g, '-');
-            songs.push({
-                id,
-                artist,
-                title,
-                releaseYear, 
-                rankings
-            });
-        }
-    }
-
-    return songs;
+    // Shared grid parser (handles rowspan/colspan and nested markup)
+    return parseTop2000Table(data.parse.text['*']);
 }
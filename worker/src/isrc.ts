@@ -0,0 +1,176 @@
+// --- ISRC Resolution ---
+// The ISRC identifies one recording, so playlist transfers (Soundiiz, the
+// Spotify export) that match on it pick the studio original instead of a live
+// version, remaster or karaoke cover. The enrichment job (enrichment.ts)
+// resolves it per song; providers are tried in order:
+//
+//   ISRC_PROVIDERS              comma-separated chain, default "spotify,deezer"
+//   SPOTIFY_CLIENT_ID/_SECRET   client credentials (the OAuth app's); spotify
+//                               is skipped without them
+//   SPOTIFY_API_BASE_URL        default https://api.spotify.com/v1
+//   SPOTIFY_ACCOUNTS_BASE_URL   default https://accounts.spotify.com
+//   DEEZER_API_BASE_URL         default https://api.deezer.com
+//
+// A candidate must match the artist and title. Versions the title does not ask
+// for (karaoke, live, remix, ...) are passed over, and of the rest the earliest
+// release wins. Manual overrides (PUT /data/isrc/:id) win over resolved codes.
+//
+// KV (ITUNES_CACHE):
+//   isrc:overrides       { [songId]: isrc }
+//   isrc:spotify_token   client credentials access token
+
+import { namesMatch } from './itunes';
+import { slugify } from './identity';
+
+const OVERRIDES_KEY = 'isrc:overrides';
+const SPOTIFY_TOKEN_KEY = 'isrc:spotify_token';
+
+const DEFAULT_CHAIN = 'spotify,deezer';
+const LOOKUP_TIMEOUT_MS = 5000;
+const MAX_CANDIDATES = 10;
+
+const DEFAULT_BASE_URLS = {
+    spotify: 'https://api.spotify.com/v1',
+    spotifyAccounts: 'https://accounts.spotify.com',
+    deezer: 'https://api.deezer.com'
+};
+
+const baseUrl = (value, fallback) => (value || fallback).replace(/\/+$/, '');
+
+// CC-XXX-YY-NNNNN, written without the hyphens
+const ISRC_PATTERN = /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/;
+
+// "nl-a01-23-00001" → "NLA012300001"; null when it is not an ISRC
+export function normalizeIsrc(value) {
+    if (typeof value !== 'string') return null;
+    const isrc = value.replace(/[\s-]/g, '').toUpperCase();
+    return ISRC_PATTERN.test(isrc) ? isrc : null;
+}
+
+// Words that mark another version than the one in the list
+const VERSION_WORDS = ['karaoke', 'live', 'instrumental', 'remix', 'mix', 'cover', 'tribute', 'acoustic', 'demo', 'recorded', 'originally', 'style'];
+
+const versionWords = (text) => new Set(slugify(text).split('-').filter(word => VERSION_WORDS.includes(word)));
+
+// True when the candidate is the song and not a version the title does not ask for
+const isCandidate = (candidate, artist, title) => {
+    if (!namesMatch(candidate.artist, artist) || !namesMatch(candidate.title, title)) return false;
+    const wanted = versionWords(`${artist} ${title}`);
+    return [...versionWords(`${candidate.artist} ${candidate.title} ${candidate.album || ''}`)].every(word => wanted.has(word));
+};
+
+// The earliest release; candidates without a date keep their search order, last
+const pickCandidate = (candidates, artist, title) => candidates
+    .filter(candidate => isCandidate(candidate, artist, title))
+    .sort((a, b) => (a.releaseDate || '9999').localeCompare(b.releaseDate || '9999'))[0] || null;
+
+const fetchJson = async (url, options = {}) => {
+    const response = await fetch(url, { ...options, signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS) });
+    if (!response.ok) throw new Error(`${new URL(url).hostname} answered ${response.status}`);
+    return await response.json();
+};
+
+const quoted = (text) => text.replace(/"/g, '');
+
+// Client credentials token, kept until shortly before it expires
+async function getSpotifyToken(env) {
+    const cached = await env.ITUNES_CACHE.get(SPOTIFY_TOKEN_KEY);
+    if (cached) return cached;
+
+    const data = await fetchJson(`${baseUrl(env.SPOTIFY_ACCOUNTS_BASE_URL, DEFAULT_BASE_URLS.spotifyAccounts)}/api/token`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Authorization': `Basic ${btoa(`${env.SPOTIFY_CLIENT_ID}:${env.SPOTIFY_CLIENT_SECRET}`)}`
+        },
+        body: 'grant_type=client_credentials'
+    });
+    await env.ITUNES_CACHE.put(SPOTIFY_TOKEN_KEY, data.access_token, { expirationTtl: Math.max(60, (data.expires_in || 3600) - 60) });
+    return data.access_token;
+}
+
+async function searchSpotify(env, artist, title) {
+    const token = await getSpotifyToken(env);
+    const q = `artist:"${quoted(artist)}" track:"${quoted(title)}"`;
+    const data = await fetchJson(`${baseUrl(env.SPOTIFY_API_BASE_URL, DEFAULT_BASE_URLS.spotify)}/search?q=${encodeURIComponent(q)}&type=track&limit=${MAX_CANDIDATES}&market=NL`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+    });
+
+    const candidates = (data.tracks?.items || []).map(track => ({
+        artist: track.artists?.[0]?.name || '',
+        title: track.name || '',
+        album: track.album?.name,
+        releaseDate: track.album?.release_date,
+        isrc: normalizeIsrc(track.external_ids?.isrc)
+    })).filter(candidate => candidate.isrc);
+    return pickCandidate(candidates, artist, title)?.isrc || null;
+}
+
+// Deezer search results have no ISRC; the chosen track is looked up
+async function searchDeezer(env, artist, title) {
+    const base = baseUrl(env.DEEZER_API_BASE_URL, DEFAULT_BASE_URLS.deezer);
+    const q = `artist:"${quoted(artist)}" track:"${quoted(title)}"`;
+    const data = await fetchJson(`${base}/search?q=${encodeURIComponent(q)}&limit=${MAX_CANDIDATES}`);
+    if (data.error) throw new Error(`Deezer search failed: ${data.error.message}`);
+
+    const candidates = (data.data || []).map(track => ({
+        id: track.id,
+        artist: track.artist?.name || '',
+        title: track.title || '',
+        album: track.album?.title
+    }));
+    const candidate = pickCandidate(candidates, artist, title);
+    if (!candidate) return null;
+
+    const track = await fetchJson(`${base}/track/${candidate.id}`);
+    return normalizeIsrc(track.isrc);
+}
+
+const PROVIDERS = {
+    spotify: { search: searchSpotify, configured: (env) => !!env.SPOTIFY_CLIENT_ID && !!env.SPOTIFY_CLIENT_SECRET },
+    deezer: { search: searchDeezer, configured: () => true }
+};
+
+// The configured chain; unknown names and spotify without credentials are left out
+export function getIsrcProviders(env) {
+    return (env.ISRC_PROVIDERS || DEFAULT_CHAIN)
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter(name => PROVIDERS[name]?.configured(env));
+}
+
+// Returns { isrc, source } from the first provider that finds the song, or
+// null when none does. Throws when every provider failed, so the song is
+// tried again later.
+export async function resolveIsrc(env, artist, title) {
+    const providers = getIsrcProviders(env);
+    const errors = [];
+
+    for (const name of providers) {
+        try {
+            const isrc = await PROVIDERS[name].search(env, artist, title);
+            if (isrc) return { isrc, source: name };
+        } catch (e) {
+            console.warn(`ISRC lookup at ${name} failed:`, e.message);
+            errors.push(`${name}: ${e.message}`);
+        }
+    }
+
+    if (providers.length > 0 && errors.length === providers.length) {
+        throw new Error(`ISRC lookup failed (${errors.join('; ')})`);
+    }
+    return null;
+}
+
+export async function getIsrcOverrides(env) {
+    return await env.ITUNES_CACHE.get(OVERRIDES_KEY, 'json') || {};
+}
+
+// Sets (or with null removes) the override of one song
+export async function setIsrcOverride(env, songId, isrc) {
+    const overrides = await getIsrcOverrides(env);
+    if (isrc) overrides[songId] = isrc;
+    else delete overrides[songId];
+    await env.ITUNES_CACHE.put(OVERRIDES_KEY, JSON.stringify(overrides));
+    return overrides;
+}
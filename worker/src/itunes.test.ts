@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { namesMatch } from './itunes';
+
+describe('namesMatch', () => {
+  it('ignores bracketed parts, " - " suffixes and featured artists', () => {
+    expect(namesMatch('Bohemian Rhapsody (Remastered 2011)', 'Bohemian Rhapsody')).toBe(true);
+    expect(namesMatch('Bohemian Rhapsody - Live Aid', 'Bohemian Rhapsody')).toBe(true);
+    expect(namesMatch('(I Can\'t Get No) Satisfaction', 'Satisfaction')).toBe(true);
+    expect(namesMatch('Under Pressure [Single Version]', 'under pressure')).toBe(true);
+    expect(namesMatch('Kraantje Pappie feat. Snelle', 'Kraantje Pappie')).toBe(true);
+    expect(namesMatch('Bløf', 'BLØF')).toBe(true);
+  });
+
+  it('does not accept a longer name that contains the other', () => {
+    expect(namesMatch('Yesterday Once More', 'Yesterday')).toBe(false);
+    expect(namesMatch('Queen Tribute Band', 'Queen')).toBe(false);
+    expect(namesMatch('Queen', 'Queen Tribute Band')).toBe(false);
+  });
+
+  it('never matches empty names', () => {
+    expect(namesMatch('', '')).toBe(false);
+    expect(namesMatch('!!!', 'Queen')).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+// --- iTunes Cache Submissions ---
+// The iTunes API often blocks server-side searches, so browsers look songs up
+// themselves and POST the result to /itunes, which every other visitor is then
+// served. Submissions are checked before they are stored:
+//   - the body is small JSON with only the known fields
+//   - coverUrl and previewUrl are https URLs on Apple's CDN hosts, trackViewUrl
+//     a store link on music.apple.com or itunes.apple.com
+//   - the artist/title pair is a song in the dataset (checked by the caller)
+//   - with a trackId, the worker looks the track up at iTunes and marks the
+//     entry verified when the URLs, names and track details match
+// An existing entry is only replaced by a verified submission, so the cover
+// of a song cannot be swapped for an arbitrary image.
+//
+// The enrichment job (enrichment.ts) searches iTunes from the worker itself
+// with searchItunes; ITUNES_API_BASE_URL (default https://itunes.apple.com)
+// points both lookups at worker/dev/metadata-standin.mjs for offline runs.
+
+import { slugify } from './identity';
+
+export const MAX_SUBMISSION_BYTES = 2048;
+
+// POST /itunes/batch: cache lookups for the cards on screen in one request
+export const MAX_BATCH_SONGS = 50;
+export const MAX_BATCH_BYTES = 32 * 1024;
+const LOOKUP_TIMEOUT_MS = 5000;
+const DEFAULT_BASE_URL = 'https://itunes.apple.com';
+
+const baseUrl = (env) => (env.ITUNES_API_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+// Changed cache key prefix to 'itunes-v2' to invalidate old cache
+export const itunesCacheKey = (artist, title) => `itunes-v2:${artist.trim().toLowerCase()}:${title.trim().toLowerCase()}`.replace(/\s+/g, '-');
+
+const ALLOWED_FIELDS = ['artist', 'title', 'coverUrl', 'previewUrl', 'durationMs', 'trackId', 'album', 'genre', 'releaseDate', 'trackViewUrl'];
+const MAX_TEXT_LENGTH = 200;
+
+// Artwork: is1-ssl.mzstatic.com … is5-ssl.mzstatic.com
+// Previews: audio-ssl.itunes.apple.com, or *.mzstatic.com for newer tracks
+const COVER_HOSTS = [/^is\d+(?:-ssl)?\.mzstatic\.com$/];
+const PREVIEW_HOSTS = [/^audio-ssl\.itunes\.apple\.com$/, /^[a-z0-9-]+\.mzstatic\.com$/];
+const STORE_HOSTS = [/^music\.apple\.com$/, /^itunes\.apple\.com$/];
+
+const isAllowedUrl = (value, hosts) => {
+    if (typeof value !== 'string' || value.length > 1000) return false;
+    try {
+        const url = new URL(value);
+        return url.protocol === 'https:' && !url.username && !url.password && !url.port &&
+            hosts.some(host => host.test(url.hostname));
+    } catch (e) {
+        return false;
+    }
+};
+
+const isText = (value) => typeof value === 'string' && value.length <= MAX_TEXT_LENGTH;
+
+// iTunes gives "1975-10-31T12:00:00Z"; a plain date is accepted as well
+const isReleaseDate = (value) => typeof value === 'string' &&
+    /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2}(\.\d+)?Z)?$/.test(value) && !isNaN(Date.parse(value));
+
+// Checks a parsed submission. Returns the entry to store (without the
+// verified flag) and the reasons it was refused.
+export function validateItunesSubmission(body) {
+    const errors = [];
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { submission: null, errors: ['Body must be a JSON object'] };
+    }
+
+    const unknown = Object.keys(body).filter(key => !ALLOWED_FIELDS.includes(key));
+    if (unknown.length > 0) errors.push(`Unknown fields: ${unknown.join(', ')}`);
+
+    const { artist, title, coverUrl, previewUrl, durationMs, trackId, album, genre, releaseDate, trackViewUrl } = body;
+    if (typeof artist !== 'string' || !artist.trim() || typeof title !== 'string' || !title.trim()) {
+        errors.push('Missing artist or title');
+    }
+    if (coverUrl != null && !isAllowedUrl(coverUrl, COVER_HOSTS)) errors.push('coverUrl must be an Apple artwork URL');
+    if (previewUrl != null && !isAllowedUrl(previewUrl, PREVIEW_HOSTS)) errors.push('previewUrl must be an Apple preview URL');
+    if (coverUrl == null && previewUrl == null) errors.push('Nothing to store');
+    if (durationMs != null && !(Number.isInteger(durationMs) && durationMs > 0 && durationMs < 60 * 60 * 1000)) {
+        errors.push('durationMs must be a positive whole number of milliseconds');
+    }
+    if (trackId != null && !(Number.isInteger(trackId) && trackId > 0)) errors.push('trackId must be a positive whole number');
+    if (album != null && !isText(album)) errors.push(`album must be text of at most ${MAX_TEXT_LENGTH} characters`);
+    if (genre != null && !isText(genre)) errors.push(`genre must be text of at most ${MAX_TEXT_LENGTH} characters`);
+    if (releaseDate != null && !isReleaseDate(releaseDate)) errors.push('releaseDate must be an ISO date');
+    if (trackViewUrl != null && !isAllowedUrl(trackViewUrl, STORE_HOSTS)) errors.push('trackViewUrl must be an Apple Music or iTunes Store URL');
+
+    if (errors.length > 0) return { submission: null, errors };
+
+    return {
+        submission: {
+            artist: artist.trim(),
+            title: title.trim(),
+            coverUrl: coverUrl ?? null,
+            previewUrl: previewUrl ?? null,
+            durationMs: durationMs ?? null,
+            trackId: trackId ?? null,
+            album: album?.trim() || null,
+            genre: genre?.trim() || null,
+            releaseDate: releaseDate ?? null,
+            trackViewUrl: trackViewUrl ?? null
+        },
+        errors
+    };
+}
+
+// Artwork URLs differ only in the size segment ("100x100bb.jpg" vs "600x600bb.jpg")
+const artworkKey = (url) => url ? url.replace(/\/\d+x\d+[a-z]*\.(jpg|png|webp)$/, '/$1') : null;
+
+// The name without bracketed parts, " - Remastered 2011" style suffixes and
+// featured artists; the full name when nothing else is left
+const baseName = (name) => slugify(name
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')
+    .replace(/\s+[-–—]\s+.*$/, '')
+    .replace(/\s+(feat\.?|ft\.?|featuring)\s.*$/i, '')) || slugify(name);
+
+// "Bohemian Rhapsody (Remastered 2011)" and "Bohemian Rhapsody - Live" match
+// "Bohemian Rhapsody"; "Yesterday Once More" does not match "Yesterday", nor
+// "Queen Tribute Band" "Queen"
+export const namesMatch = (a, b) => {
+    const slugA = baseName(a);
+    return !!slugA && slugA === baseName(b);
+};
+
+// Store links carry tracking parameters ("?uo=4"); compare without them
+const storeKey = (url) => url ? url.split('?')[0] : null;
+
+// Looks the submitted track up at iTunes. True when the track exists, is by
+// the artist with the title, and the submitted URLs and details belong to it.
+// Lookup failures count as unverified.
+export async function verifyItunesSubmission(env, submission) {
+    if (!submission.trackId) return false;
+
+    try {
+        const response = await fetch(`${baseUrl(env)}/lookup?id=${submission.trackId}&entity=song&country=NL`, {
+            signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS)
+        });
+        if (!response.ok) return false;
+        const track = (await response.json()).results?.find(r => r.trackId === submission.trackId);
+        if (!track) return false;
+
+        return namesMatch(track.artistName, submission.artist) &&
+            namesMatch(track.trackName, submission.title) &&
+            (submission.coverUrl === null || artworkKey(track.artworkUrl100) === artworkKey(submission.coverUrl)) &&
+            (submission.previewUrl === null || track.previewUrl === submission.previewUrl) &&
+            (submission.album === null || track.collectionName === submission.album) &&
+            (submission.genre === null || track.primaryGenreName === submission.genre) &&
+            (submission.releaseDate === null || track.releaseDate?.substring(0, 10) === submission.releaseDate.substring(0, 10)) &&
+            (submission.trackViewUrl === null || storeKey(track.trackViewUrl) === storeKey(submission.trackViewUrl));
+    } catch (e) {
+        console.warn('iTunes lookup failed:', e.message);
+        return false;
+    }
+}
+
+// Album, genre, release date and store link of an iTunes result
+const trackDetails = (track) => ({
+    album: track.collectionName || null,
+    genre: track.primaryGenreName || null,
+    releaseDate: track.releaseDate || null,
+    trackViewUrl: track.trackViewUrl || null
+});
+
+// Searches iTunes from the worker, with the same queries the browser uses
+// (itunesService.ts), and takes the first result by the artist with the
+// title. Returns a submission-shaped result or null; throws on HTTP errors
+// (iTunes answers 403 when it blocks the worker).
+export async function searchItunes(env, artist, title) {
+    const clean = (str) => str.toLowerCase().replace(/[^\w\s]/g, '').trim();
+    const queries = Array.from(new Set([`${artist} ${title}`, `${clean(artist)} ${clean(title)}`, title]));
+
+    for (const q of queries) {
+        const response = await fetch(`${baseUrl(env)}/search?term=${encodeURIComponent(q)}&media=music&entity=song&limit=5&country=NL`, {
+            signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS)
+        });
+        if (!response.ok) throw new Error(`iTunes search failed: ${response.status}`);
+
+        const track = (await response.json()).results?.find(r =>
+            namesMatch(r.artistName || '', artist) && namesMatch(r.trackName || '', title));
+        if (track) {
+            return {
+                artist,
+                title,
+                coverUrl: track.artworkUrl100 ? track.artworkUrl100.replace('100x100', '600x600') : null,
+                previewUrl: track.previewUrl || null,
+                durationMs: track.trackTimeMillis || null,
+                trackId: track.trackId || null,
+                ...trackDetails(track)
+            };
+        }
+    }
+    return null;
+}
+
+// The stored form: what GET /itunes serves
+export const itunesEntry = (submission, verified) => ({
+    coverUrl: submission.coverUrl,
+    previewUrl: submission.previewUrl,
+    durationMs: submission.durationMs,
+    trackId: submission.trackId,
+    album: submission.album ?? null,
+    genre: submission.genre ?? null,
+    releaseDate: submission.releaseDate ?? null,
+    trackViewUrl: submission.trackViewUrl ?? null,
+    verified
+});
+
+// Entries stored before the track details were kept lack those fields
+export const sameItunesEntry = (a, b) =>
+    ['coverUrl', 'previewUrl', 'album', 'genre', 'releaseDate', 'trackViewUrl'].every(field => (a[field] ?? null) === (b[field] ?? null));
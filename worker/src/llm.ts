@@ -0,0 +1,201 @@
+// --- LLM Providers ---
+// Handlers ask for a chat completion without knowing who answers it. Providers
+// are configured through env vars and tried in order until one succeeds:
+//
+//   LLM_PROVIDERS          comma-separated chain, default "groq,template"
+//   LLM_<NAME>_BASE_URL    OpenAI-compatible base URL, e.g. https://api.groq.com/openai/v1
+//   LLM_<NAME>_MODEL       model id
+//   LLM_<NAME>_API_KEY     secret (optional for local endpoints)
+//   LLM_<NAME>_TIMEOUT_MS  default 15000; for streams also the maximum gap between chunks
+//
+// "groq" has built-in defaults and reads GROQ_API_KEY; it is skipped while no
+// key is set. "template" is a deterministic offline provider that answers with
+// the caller's template text, so CI and offline development need no network.
+
+export const TEMPLATE_PROVIDER = 'template';
+
+const DEFAULT_CHAIN = `groq,${TEMPLATE_PROVIDER}`;
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const BUILT_IN_PROVIDERS = {
+    groq: { baseUrl: 'https://api.groq.com/openai/v1', model: 'llama-3.1-8b-instant', apiKeyVar: 'GROQ_API_KEY' }
+};
+
+const envPrefix = (name) => `LLM_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+
+// The configured chain. Remote providers without a base URL and model, and
+// built-in providers without their key, are left out.
+export function getProviders(env) {
+    return (env.LLM_PROVIDERS || DEFAULT_CHAIN)
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter(Boolean)
+        .map(name => {
+            if (name === TEMPLATE_PROVIDER) return { name, model: TEMPLATE_PROVIDER, offline: true };
+
+            const prefix = envPrefix(name);
+            const builtIn = BUILT_IN_PROVIDERS[name];
+            const apiKey = env[`${prefix}API_KEY`] || (builtIn ? env[builtIn.apiKeyVar] : null);
+            if (builtIn && !apiKey) return null;
+
+            const provider = {
+                name,
+                baseUrl: (env[`${prefix}BASE_URL`] || builtIn?.baseUrl || '').replace(/\/+$/, ''),
+                model: env[`${prefix}MODEL`] || builtIn?.model,
+                apiKey,
+                timeoutMs: parseInt(env[`${prefix}TIMEOUT_MS`]) || DEFAULT_TIMEOUT_MS,
+                offline: false
+            };
+            if (!provider.baseUrl || !provider.model) {
+                console.warn(`LLM provider "${name}" is missing ${prefix}BASE_URL or ${prefix}MODEL, skipping`);
+                return null;
+            }
+            return provider;
+        })
+        .filter(Boolean);
+}
+
+// Aborts the controller when the deadline passes; arm() restarts the clock
+const deadline = (controller, ms, name) => {
+    let timer;
+    const arm = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => controller.abort(new Error(`${name} timed out after ${ms} ms`)), ms);
+    };
+    arm();
+    return { arm, clear: () => clearTimeout(timer) };
+};
+
+// A controller that also aborts when the caller's signal does
+const linkedController = (signal) => {
+    const controller = new AbortController();
+    if (signal) {
+        if (signal.aborted) controller.abort(signal.reason);
+        else signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+    }
+    return controller;
+};
+
+const requestCompletion = (provider, { messages, temperature, maxTokens }, stream, signal) =>
+    fetch(`${provider.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(provider.apiKey ? { Authorization: `Bearer ${provider.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+            model: provider.model,
+            messages,
+            temperature,
+            max_tokens: maxTokens,
+            stream
+        }),
+        signal
+    });
+
+const failure = async (provider, response) =>
+    new Error(`${provider.name} error: ${response.status} ${(await response.text()).substring(0, 200)}`);
+
+// options: { messages, temperature, maxTokens, template?: () => string, accept?: (text) => boolean }
+// Returns { text, provider, model, offline }. An answer that `accept` rejects
+// counts as a failure, so the next provider gets a chance.
+export async function completeChat(env, options) {
+    const errors = [];
+
+    for (const provider of getProviders(env)) {
+        if (provider.offline) {
+            if (!options.template) continue;
+            return { text: options.template(), provider: provider.name, model: provider.model, offline: true };
+        }
+
+        const controller = new AbortController();
+        const timer = deadline(controller, provider.timeoutMs, provider.name);
+        try {
+            const response = await requestCompletion(provider, options, false, controller.signal);
+            if (!response.ok) throw await failure(provider, response);
+
+            const data = await response.json();
+            const text = data?.choices?.[0]?.message?.content?.trim() ?? '';
+            if (!text || (options.accept && !options.accept(text))) {
+                throw new Error(`${provider.name} returned an unusable answer`);
+            }
+            return { text, provider: provider.name, model: provider.model, offline: false };
+        } catch (error) {
+            console.warn(`LLM provider ${provider.name} failed:`, error.message);
+            errors.push(error.message);
+        } finally {
+            timer.clear();
+        }
+    }
+
+    throw new Error(errors.length > 0 ? `All LLM providers failed: ${errors.join('; ')}` : 'No LLM provider configured');
+}
+
+// Yields the content deltas of an OpenAI-compatible SSE stream
+async function* readDeltas(response, timer) {
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finished = false;
+
+    try {
+        // "data: {chunk}" lines, ending with "data: [DONE]"
+        while (true) {
+            timer.arm();
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            const lines = buffer.split('\n');
+            buffer = lines.pop();
+            for (const line of lines) {
+                if (!line.startsWith('data:')) continue;
+                const payload = line.substring(5).trim();
+                if (!payload || payload === '[DONE]') continue;
+
+                const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+                if (delta) yield delta;
+            }
+        }
+        finished = true;
+    } finally {
+        timer.clear();
+        // Stopped early (consumer gone or error): close the upstream connection
+        if (!finished) reader.cancel().catch(() => {});
+    }
+}
+
+// Template text in word-sized pieces, like a real stream
+async function* templateDeltas(text) {
+    for (const piece of text.match(/\S+\s*/g) || []) yield piece;
+}
+
+// options: as completeChat plus signal?: AbortSignal.
+// Returns { tokens: AsyncGenerator<string>, provider, model, offline }. Falls
+// back to the next provider only while opening the stream; once text flows a
+// failure surfaces as an error from the generator.
+export async function streamChat(env, options) {
+    const errors = [];
+
+    for (const provider of getProviders(env)) {
+        if (provider.offline) {
+            if (!options.template) continue;
+            return { tokens: templateDeltas(options.template()), provider: provider.name, model: provider.model, offline: true };
+        }
+
+        const controller = linkedController(options.signal);
+        const timer = deadline(controller, provider.timeoutMs, provider.name);
+        try {
+            const response = await requestCompletion(provider, options, true, controller.signal);
+            if (!response.ok || !response.body) throw await failure(provider, response);
+            return { tokens: readDeltas(response, timer), provider: provider.name, model: provider.model, offline: false };
+        } catch (error) {
+            timer.clear();
+            if (options.signal?.aborted) throw error;
+            console.warn(`LLM provider ${provider.name} failed:`, error.message);
+            errors.push(error.message);
+        }
+    }
+
+    throw new Error(errors.length > 0 ? `All LLM providers failed: ${errors.join('; ')}` : 'No LLM provider configured');
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { linkNewsItems } from './newsLinks';
+
+const songs = [
+  { id: 'queen-bohemian-rhapsody', artist: 'Queen', title: 'Bohemian Rhapsody', allTimeRank: 1, rankings: { '2023': 2, '2024': 1 } },
+  { id: 'queen-killer-queen', artist: 'Queen', title: 'Killer Queen', allTimeRank: 300, rankings: { '2023': 250, '2024': 260 } },
+  { id: 'eagles-hotel-california', artist: 'Eagles', title: 'Hotel California', allTimeRank: 2, rankings: { '2023': 1, '2024': 2 } },
+  { id: 'america-a-horse-with-no-name', artist: 'America', title: 'A Horse with No Name', allTimeRank: 150, rankings: { '2024': 140 } },
+  { id: 'train-drops-of-jupiter', artist: 'Train', title: 'Drops of Jupiter', allTimeRank: 900, rankings: { '2024': 1 } },
+  { id: 'toto-africa', artist: 'Toto', title: 'Africa', allTimeRank: 50, rankings: { '2024': 45 } }
+];
+
+const link = (title: string, description = '') =>
+  linkNewsItems([{ title, description }], songs)[0].songs.map(song => [song.id, song.match]);
+
+describe('linkNewsItems', () => {
+  it('links a title with its artist', () => {
+    expect(link('Hotel California van Eagles was in 2023 nummer één')).toEqual([['eagles-hotel-california', 'title']]);
+  });
+
+  it('links a sentence-initial artist with a position', () => {
+    expect(link('Queen opnieuw op nummer 1 in de Top 2000')).toEqual([['queen-bohemian-rhapsody', 'position']]);
+  });
+
+  it('does not link a sentence-initial artist on its own', () => {
+    expect(link('Toto, de hond van de buren, is weer thuis')).toEqual([]);
+    expect(link('Kerst', 'Het was druk. Toto speelde in de tuin.')).toEqual([]);
+  });
+
+  it('links a one-word artist inside a sentence', () => {
+    expect(link('Nieuwe plaat van Toto aangekondigd')).toEqual([['toto-africa', 'artist']]);
+  });
+
+  it('needs a title for artists that are everyday words', () => {
+    expect(link('Verkiezingen in America', 'De Train naar Berlijn reed op 1 januari niet')).toEqual([]);
+    expect(link('America speelt A Horse with No Name live')).toEqual([['america-a-horse-with-no-name', 'title']]);
+  });
+
+  it('takes a quoted name at its word', () => {
+    expect(link('Waarom "Train" nummer 1 werd')).toEqual([['train-drops-of-jupiter', 'position']]);
+  });
+});
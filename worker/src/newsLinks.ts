@@ -0,0 +1,170 @@
+// --- News Entity Linking ---
+// Finds the songs a news item is about by matching artist names and song
+// titles from the dataset against its title and description. A song is linked
+// when the article mentions:
+//   - its title and its artist ("Bohemian Rhapsody van Queen")
+//   - its artist and its position ("Queen opnieuw op nummer 1"), in the
+//     edition named in the text or else the latest edition
+//   - only its title, when the title is long enough to be unambiguous
+// An artist mentioned without any of these links to their highest song in
+// the all-time list. Names are compared as slugs (identity.ts), so accents
+// and punctuation do not matter; one-word names only match when capitalised
+// in the text ("Queen", not "queen"). Capitals prove little for everyday
+// words ("America", "Live", "Yes", "Train"): such an artist only counts
+// together with one of its titles. At the start of a sentence they prove
+// nothing either, so there a one-word artist also needs a title or a
+// position. Quoted names always count.
+
+import { slugify } from './identity';
+
+const MAX_LINKS_PER_ITEM = 5;
+const MIN_TITLE_ONLY_LENGTH = 10; // slug length of a title that links on its own
+
+// "nummer 1", "op 1", "plek 12", "number one", "#1"
+const POSITION_PATTERN = /(?:\b(?:nummer|number|plek|plaats|positie|op)\s+(\d{1,4}|één|een|one)\b|#(\d{1,4})\b)/giu;
+
+// One-word artist names that are also everyday words, places or events
+const COMMON_WORDS = new Set([
+    'america', 'europe', 'live', 'yes', 'train', 'boston', 'chicago', 'kansas', 'texas', 'berlin',
+    'genesis', 'journey', 'heart', 'muse', 'focus', 'free', 'war', 'spoon', 'sting', 'madness', 'kiss'
+]);
+
+const OPENING_QUOTE = /["'‘“„«]$/u;
+const CLOSING_QUOTE = /^["'’”»]/u;
+
+const tokenize = (text: string) => Array.from(text.matchAll(/[\p{L}\p{N}'’‘`´]+/gu))
+    .map(match => {
+        const word = match[0];
+        const before = text.substring(0, match.index);
+        const after = text.substring(match.index + word.length);
+        return {
+            slug: slugify(word),
+            capitalised: /^[\p{Lu}\p{N}]/u.test(word),
+            sentenceStart: /(?:^|[.!?:\n])[\s"'‘“„«(]*$/u.test(before),
+            quoted: (OPENING_QUOTE.test(before) || /^["'‘“„«]/u.test(word)) && (CLOSING_QUOTE.test(after) || /["'’”»]$/u.test(word))
+        };
+    })
+    .filter(word => word.slug);
+
+// How much a one-word artist match is worth: 'common' needs a title,
+// 'initial' a title or a position; null for any other match
+const weakness = (entity, word) => {
+    if (entity.kind !== 'artist' || entity.tokens.length > 1 || word.quoted) return null;
+    if (COMMON_WORDS.has(entity.tokens[0])) return 'common';
+    return word.sentenceStart ? 'initial' : null;
+};
+
+const nameTokens = (name) => slugify(name).split('-').filter(Boolean);
+
+const bestRank = (song) => song.allTimeRank || Number.MAX_SAFE_INTEGER;
+
+// Index of all artist names and titles, keyed by their first token
+export function buildNewsIndex(songs) {
+    const byFirstToken = new Map();
+    const add = (tokens, entity) => {
+        if (tokens.length === 0) return;
+        const entry = { tokens, ...entity };
+        byFirstToken.set(tokens[0], [...(byFirstToken.get(tokens[0]) || []), entry]);
+    };
+
+    const artists = new Map();
+    const titleCounts = new Map();
+    songs.forEach(song => {
+        const key = slugify(song.artist);
+        artists.set(key, [...(artists.get(key) || []), song]);
+        titleCounts.set(slugify(song.title), (titleCounts.get(slugify(song.title)) || 0) + 1);
+    });
+
+    artists.forEach((artistSongs, key) => {
+        const tokens = key.split('-');
+        add(tokens, { kind: 'artist', key, songs: artistSongs });
+        // "Beatles" for "The Beatles"
+        if (tokens[0] === 'the' && tokens.length > 1) add(tokens.slice(1), { kind: 'artist', key, songs: artistSongs });
+    });
+
+    songs.forEach(song => {
+        const key = slugify(song.title);
+        add(nameTokens(song.title), { kind: 'title', key, song, unique: titleCounts.get(key) === 1 });
+    });
+
+    const editions = Array.from(new Set(songs.flatMap(s => Object.keys(s.rankings || {})))).sort();
+    return { byFirstToken, editions };
+}
+
+// All name matches in the text as { entity, start, end } word spans, without
+// matches that lie inside a longer match ("Queen" inside "Killer Queen")
+const findMatches = (words, index) => {
+    const matches = [];
+    words.forEach((word, start) => {
+        (index.byFirstToken.get(word.slug) || []).forEach(entity => {
+            const end = start + entity.tokens.length;
+            if (end > words.length) return;
+            if (!entity.tokens.every((token, i) => words[start + i].slug === token)) return;
+            if (entity.tokens.length === 1 && !word.capitalised) return;
+            matches.push({ entity, start, end, weak: weakness(entity, word) });
+        });
+    });
+
+    return matches.filter(m => !matches.some(other =>
+        other !== m && other.start <= m.start && other.end >= m.end && other.end - other.start > m.end - m.start
+    ));
+};
+
+const mentionedPositions = (text) => Array.from(text.matchAll(POSITION_PATTERN))
+    .map(match => {
+        const value = (match[1] || match[2]).toLowerCase();
+        return ['één', 'een', 'one'].includes(value) ? 1 : parseInt(value);
+    })
+    .filter(position => position >= 1 && position <= 2000);
+
+const mentionedEdition = (text, editions) =>
+    (text.match(/\b(?:19|20)\d{2}\b/g) || []).filter(year => editions.includes(year)).pop() || editions[editions.length - 1];
+
+// The songs an item is about, in order of first mention:
+// [{ id, artist, title, match: 'title' | 'position' | 'artist' }]
+export function linkNewsItem(item, index) {
+    const text = `${item.title}\n${item.description}`;
+    const matches = findMatches(tokenize(text), index);
+
+    // Every artist match backs up a title; weak ones link little on their own
+    const artistMatches = matches.filter(m => m.entity.kind === 'artist');
+    const mentionedArtists = new Set(artistMatches.map(m => m.entity.key));
+    const positions = mentionedPositions(text);
+    const edition = mentionedEdition(text, index.editions);
+
+    const links = [];
+    const link = (song, match, at) => {
+        if (!links.some(l => l.song.id === song.id)) links.push({ song, match, at });
+    };
+
+    matches.forEach(({ entity, start }) => {
+        if (entity.kind === 'title') {
+            const artistKey = slugify(entity.song.artist);
+            if (mentionedArtists.has(artistKey)) link(entity.song, 'title', start);
+            else if (entity.unique && entity.key.length >= MIN_TITLE_ONLY_LENGTH && entity.tokens.length > 1) link(entity.song, 'title', start);
+        }
+    });
+
+    artistMatches.filter(m => m.weak !== 'common').forEach(({ entity, start }) => {
+        entity.songs
+            .filter(song => positions.includes(song.rankings?.[edition]))
+            .forEach(song => link(song, 'position', start));
+    });
+
+    artistMatches.filter(m => !m.weak).forEach(({ entity, start }) => {
+        if (links.some(l => slugify(l.song.artist) === entity.key)) return;
+        const best = [...entity.songs].sort((a, b) => bestRank(a) - bestRank(b))[0];
+        if (best) link(best, 'artist', start);
+    });
+
+    return links
+        .sort((a, b) => a.at - b.at)
+        .slice(0, MAX_LINKS_PER_ITEM)
+        .map(({ song, match }) => ({ id: song.id, artist: song.artist, title: song.title, match }));
+}
+
+export function linkNewsItems(items, songs) {
+    if (!songs || songs.length === 0) return items;
+    const index = buildNewsIndex(songs);
+    return items.map(item => ({ ...item, songs: linkNewsItem(item, index) }));
+}
@@ -0,0 +1,104 @@
+// --- OAuth State & PKCE ---
+// The login redirect carries a signed, expiring state. Its nonce is bound to
+// the browser through an HttpOnly cookie on the API domain, which also holds
+// the PKCE code verifier, so a callback only succeeds in the browser that
+// started the login. The state also carries the frontend path (year, filters)
+// to return to.
+// Requires the OAUTH_STATE_SECRET secret (wrangler secret put OAUTH_STATE_SECRET).
+
+const STATE_TTL = 10 * 60; // 10 minutes
+const MAX_RETURN_PATH_LENGTH = 512;
+
+const encoder = new TextEncoder();
+
+export const base64Url = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const fromBase64Url = (text) => {
+    const padded = text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - text.length % 4) % 4);
+    return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+};
+
+export const randomToken = (size = 32) => base64Url(crypto.getRandomValues(new Uint8Array(size)));
+
+const getSigningKey = async (env) => {
+    if (!env.OAUTH_STATE_SECRET) {
+        throw new Error('OAUTH_STATE_SECRET is not configured');
+    }
+    return await crypto.subtle.importKey('raw', encoder.encode(env.OAUTH_STATE_SECRET),
+        { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+};
+
+const cookieName = (service) => `oauth_${service}`;
+
+export const readCookie = (request, name) => {
+    const header = request.headers.get('Cookie') || '';
+    const match = header.split(';').map(c => c.trim()).find(c => c.startsWith(`${name}=`));
+    return match ? match.substring(name.length + 1) : null;
+};
+
+// Only same-site relative paths, so the state cannot be used as an open redirect
+export const sanitizeReturnPath = (path) => {
+    if (!path || typeof path !== 'string') return '/';
+    if (!path.startsWith('/') || path.startsWith('//') || /[\\\u0000-\u001f]/.test(path)) return '/';
+    return path.length > MAX_RETURN_PATH_LENGTH ? '/' : path;
+};
+
+// Starts a login: returns the signed state, the PKCE challenge and the
+// Set-Cookie header that binds the flow to this browser.
+export async function createOAuthState(env, service, returnPath) {
+    const nonce = randomToken(16);
+    const codeVerifier = randomToken(32);
+    const challengeDigest = await crypto.subtle.digest('SHA-256', encoder.encode(codeVerifier));
+
+    const payload = base64Url(encoder.encode(JSON.stringify({
+        service,
+        nonce,
+        returnPath: sanitizeReturnPath(returnPath),
+        exp: Math.floor(Date.now() / 1000) + STATE_TTL
+    })));
+    const signature = await crypto.subtle.sign('HMAC', await getSigningKey(env), encoder.encode(payload));
+
+    return {
+        state: `${payload}.${base64Url(new Uint8Array(signature))}`,
+        codeChallenge: base64Url(new Uint8Array(challengeDigest)),
+        cookie: `${cookieName(service)}=${nonce}.${codeVerifier}; Path=/auth/${service}/; Max-Age=${STATE_TTL}; HttpOnly; Secure; SameSite=Lax`
+    };
+}
+
+// Verifies the state returned to the callback. Returns { returnPath, codeVerifier }
+// or { error } when the state is forged, expired or from another browser.
+export async function verifyOAuthState(env, request, service, state) {
+    if (!state || !state.includes('.')) return { error: 'invalid_state' };
+
+    const [payload, signature] = state.split('.');
+    let valid = false;
+    try {
+        valid = await crypto.subtle.verify('HMAC', await getSigningKey(env), fromBase64Url(signature), encoder.encode(payload));
+    } catch (e) {
+        valid = false;
+    }
+    if (!valid) return { error: 'invalid_state' };
+
+    let data;
+    try {
+        data = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    } catch (e) {
+        return { error: 'invalid_state' };
+    }
+
+    const returnPath = sanitizeReturnPath(data.returnPath);
+    if (data.service !== service) return { error: 'invalid_state', returnPath };
+    if (!data.exp || data.exp < Math.floor(Date.now() / 1000)) return { error: 'expired_state', returnPath };
+
+    const cookie = readCookie(request, cookieName(service));
+    const [cookieNonce, codeVerifier] = (cookie || '').split('.');
+    if (!cookieNonce || cookieNonce !== data.nonce || !codeVerifier) {
+        return { error: 'state_mismatch', returnPath };
+    }
+
+    return { returnPath, codeVerifier };
+}
+
+export const clearOAuthCookie = (service) =>
+    `${cookieName(service)}=; Path=/auth/${service}/; Max-Age=0; HttpOnly; Secure; SameSite=Lax`;
@@ -0,0 +1,162 @@
+// --- Playlist Export Formats ---
+// Serialises an ordered song list for /export. Every writer receives the songs
+// in playlist order; durationMs, album and isrc are set on a song when the
+// enrichment job knows them. M3U has no field for an ISRC and leaves it out.
+
+export const EXPORT_FORMATS = ['xspf', 'json', 'jspf', 'm3u8', 'csv'];
+
+const CREATOR = 'NPO Radio 2 / Top 2000 Allertijden';
+
+const escapeXml = (unsafe) => {
+    if (!unsafe) return '';
+    return unsafe.toString()
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+};
+
+const escapeCsv = (value) => {
+    if (value === null || value === undefined) return '';
+    const text = value.toString();
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// XSPF identifiers are URIs
+const isrcUrn = (isrc) => `urn:isrc:${isrc}`;
+
+// M3U lines must not contain line breaks
+const singleLine = (text) => (text || '').replace(/[\r\n]+/g, ' ');
+
+const renderJson = (songs, meta) => JSON.stringify({
+    title: meta.title,
+    description: `${CREATOR} - Scoring: ${meta.scoring.label} - Export Date: ${meta.date}`,
+    scoring: meta.scoring.id,
+    tracks: songs.map(song => ({
+        title: song.title,
+        artist: song.artist,
+        album: song.album || (song.releaseYear ? `Year: ${song.releaseYear}` : undefined),
+        isrc: song.isrc || undefined
+    }))
+}, null, 2);
+
+const renderXspf = (songs, meta) => {
+    const xmlParts = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+      `  <title>${escapeXml(meta.title)}</title>`,
+      `  <creator>${CREATOR}</creator>`,
+      `  <annotation>Scoring: ${escapeXml(meta.scoring.label)}</annotation>`,
+      `  <date>${meta.date}</date>`,
+      '  <trackList>'
+    ];
+
+    songs.forEach(song => {
+        xmlParts.push('    <track>');
+        xmlParts.push(`      <title>${escapeXml(song.title)}</title>`);
+        xmlParts.push(`      <creator>${escapeXml(song.artist)}</creator>`);
+        if (song.album) {
+             xmlParts.push(`      <album>${escapeXml(song.album)}</album>`);
+        }
+        if (song.isrc) {
+             xmlParts.push(`      <identifier>${isrcUrn(song.isrc)}</identifier>`);
+        }
+        if (song.releaseYear) {
+             xmlParts.push(`      <annotation>Year: ${song.releaseYear}</annotation>`);
+        }
+        if (song.durationMs) {
+             xmlParts.push(`      <duration>${song.durationMs}</duration>`);
+        }
+        xmlParts.push('    </track>');
+    });
+
+    xmlParts.push('  </trackList>');
+    xmlParts.push('</playlist>');
+    return xmlParts.join('\n');
+};
+
+// JSPF: XSPF as JSON (https://www.xspf.org/jspf)
+const renderJspf = (songs, meta) => JSON.stringify({
+    playlist: {
+        title: meta.title,
+        creator: CREATOR,
+        annotation: `Scoring: ${meta.scoring.label}`,
+        date: meta.date,
+        track: songs.map(song => ({
+            title: song.title,
+            creator: song.artist,
+            album: song.album || undefined,
+            identifier: song.isrc ? [isrcUrn(song.isrc)] : undefined,
+            annotation: song.releaseYear ? `Year: ${song.releaseYear}` : undefined,
+            duration: song.durationMs || undefined
+        }))
+    }
+}, null, 2);
+
+// Extended M3U. There are no audio files, so the location line repeats
+// "Artist - Title" for DJ software to relink against its own library.
+const renderM3u8 = (songs, meta) => {
+    const lines = ['#EXTM3U', `#PLAYLIST:${singleLine(meta.title)}`];
+    songs.forEach(song => {
+        const name = singleLine(`${song.artist} - ${song.title}`);
+        const seconds = song.durationMs ? Math.round(song.durationMs / 1000) : -1;
+        lines.push(`#EXTINF:${seconds},${name}`);
+        lines.push(name);
+    });
+    return lines.join('\n') + '\n';
+};
+
+// One row per song with the rank of every edition as its own column
+const renderCsv = (songs, meta) => {
+    const header = ['Position', 'All-Time Rank', 'Artist', 'Title', 'Album', 'ISRC', 'Release Year', 'Total Score', ...meta.editions];
+    const rows = songs.map((song, index) => [
+        index + 1,
+        song.allTimeRank ?? '',
+        song.artist,
+        song.title,
+        song.album || '',
+        song.isrc || '',
+        song.releaseYear || '',
+        song.totalScore ?? '',
+        ...meta.editions.map(year => song.rankings?.[year] ?? '')
+    ]);
+    return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+};
+
+const WRITERS = {
+    json: { render: renderJson, contentType: 'application/json; charset=utf-8' },
+    xspf: { render: renderXspf, contentType: 'application/xspf+xml; charset=utf-8' },
+    jspf: { render: renderJspf, contentType: 'application/jspf+json; charset=utf-8' },
+    m3u8: { render: renderM3u8, contentType: 'audio/x-mpegurl; charset=utf-8' },
+    csv: { render: renderCsv, contentType: 'text/csv; charset=utf-8' }
+};
+
+// meta: { title, scoring: { id, label }, date, editions: string[] }
+export function renderPlaylist(format, songs, meta) {
+    const writer = WRITERS[format] || WRITERS.xspf;
+    return { body: writer.render(songs, meta), contentType: writer.contentType };
+}
+
+// Parses ?limit=N or ?range=A-B (1-based list positions) into { start, end }
+// for Array.slice. Returns null when invalid, {} when neither is given.
+export function parseExportSlice(searchParams) {
+    const limit = searchParams.get('limit');
+    const range = searchParams.get('range');
+
+    if (range) {
+        const match = range.match(/^(\d+)-(\d+)$/);
+        if (!match) return null;
+        const from = parseInt(match[1]);
+        const to = parseInt(match[2]);
+        if (from < 1 || to < from) return null;
+        return { start: from - 1, end: to };
+    }
+
+    if (limit) {
+        if (!/^\d+$/.test(limit) || parseInt(limit) < 1) return null;
+        return { start: 0, end: parseInt(limit) };
+    }
+
+    return {};
+}
@@ -0,0 +1,112 @@
+// --- Rate Limiting & Upstream Budgets ---
+// Routes that spend paid or quota-limited upstream calls (/analyze and /ask → LLM,
+// /youtube/search → YouTube Data API) are limited per client and per route.
+// On top of that every upstream API has a global daily budget; once it is
+// spent the route serves cached or fallback responses until the next UTC day.
+// Counters live in KV with a small per-isolate cache in front. KV is eventually
+// consistent, so the limits are approximate: good enough to stop a bot, not
+// meant as exact accounting.
+
+// Per client, per route: at most `limit` requests per `window` seconds
+const ROUTE_LIMITS = {
+    analyze: { limit: 10, window: 60 },
+    ask: { limit: 10, window: 60 },
+    narrative: { limit: 5, window: 60 },
+    youtube: { limit: 30, window: 60 * 60 }
+};
+
+// Daily budget per upstream, in the unit the upstream bills in.
+// Override with the LLM_DAILY_BUDGET / YOUTUBE_DAILY_BUDGET vars.
+// youtubeEnrichment is the share of the youtube budget the enrichment job may
+// take (ENRICH_YOUTUBE_DAILY_BUDGET), so visitor searches keep the rest.
+const UPSTREAM_BUDGETS = {
+    llm: { envVar: 'LLM_DAILY_BUDGET', daily: 1000 },         // requests
+    youtube: { envVar: 'YOUTUBE_DAILY_BUDGET', daily: 9000 }, // quota units (10,000/day, keep a margin)
+    youtubeEnrichment: { envVar: 'ENRICH_YOUTUBE_DAILY_BUDGET', daily: 3000 } // quota units, out of youtube
+};
+
+// KV rejects expirationTtl below 60 seconds
+const MIN_KV_TTL = 60;
+
+// Per-isolate counters; saves a KV read for clients that are already blocked
+const localCounters = new Map<string, { count: number, resetAt: number }>();
+
+const encoder = new TextEncoder();
+
+// Client addresses are hashed before they are used in KV keys
+const clientKey = async (request) => {
+    const ip = request.headers.get('CF-Connecting-IP') || request.headers.get('X-Forwarded-For')?.split(',')[0].trim() || 'unknown';
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(ip));
+    return Array.from(new Uint8Array(digest).slice(0, 12)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const utcDay = (now = Date.now()) => new Date(now).toISOString().substring(0, 10);
+
+const secondsUntilNextUtcDay = (now = Date.now()) => {
+    const next = new Date(now);
+    next.setUTCHours(24, 0, 0, 0);
+    return Math.ceil((next.getTime() - now) / 1000);
+};
+
+const getBudgetLimit = (env, upstream) => {
+    const budget = UPSTREAM_BUDGETS[upstream];
+    const configured = parseInt(env[budget.envVar]);
+    return Number.isFinite(configured) && configured >= 0 ? configured : budget.daily;
+};
+
+// Counts a request of this client on a route (fixed window).
+// Returns { allowed: true } or { allowed: false, retryAfter } in seconds.
+export async function checkRateLimit(env, request, route) {
+    const { limit, window } = ROUTE_LIMITS[route];
+    const now = Date.now();
+    const windowStart = Math.floor(now / 1000 / window) * window;
+    const resetAt = (windowStart + window) * 1000;
+    const retryAfter = Math.max(1, Math.ceil((resetAt - now) / 1000));
+    const key = `ratelimit:${route}:${await clientKey(request)}:${windowStart}`;
+
+    const local = localCounters.get(key);
+    if (local && local.count >= limit) {
+        return { allowed: false, retryAfter };
+    }
+
+    const stored = parseInt(await env.ITUNES_CACHE.get(key)) || 0;
+    const count = Math.max(stored, local?.count || 0);
+    if (count >= limit) {
+        localCounters.set(key, { count, resetAt });
+        return { allowed: false, retryAfter };
+    }
+
+    localCounters.set(key, { count: count + 1, resetAt });
+    await env.ITUNES_CACHE.put(key, String(count + 1), { expirationTtl: Math.max(MIN_KV_TTL, retryAfter + 1) });
+
+    // Drop expired local windows
+    localCounters.forEach((value, k) => {
+        if (value.resetAt <= now) localCounters.delete(k);
+    });
+
+    return { allowed: true };
+}
+
+// Reserves `cost` units of today's budget for an upstream API. Returns false
+// (and reserves nothing) when the budget would be exceeded.
+export async function reserveBudget(env, upstream, cost = 1) {
+    const key = `budget:${upstream}:${utcDay()}`;
+    const spent = parseInt(await env.ITUNES_CACHE.get(key)) || 0;
+    if (spent + cost > getBudgetLimit(env, upstream)) {
+        console.warn(`Daily ${upstream} budget exhausted (${spent} spent)`);
+        return false;
+    }
+
+    await env.ITUNES_CACHE.put(key, String(spent + cost), { expirationTtl: 60 * 60 * 48 });
+    return true;
+}
+
+// Seconds until the daily budgets reset, for Retry-After
+export const budgetRetryAfter = () => secondsUntilNextUtcDay();
+
+export function rateLimitResponse(retryAfter, corsHeaders) {
+    return new Response(JSON.stringify({ error: 'Too many requests', retryAfter }), {
+        status: 429,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) }
+    });
+}
@@ -0,0 +1,222 @@
+// --- Edition Recap ---
+// The annual "Jaaroverzicht" of one edition: newcomers, leavers, re-entries,
+// biggest climbers and fallers, the number 1, the average release year and
+// decade shares. The recap of the latest edition is computed whenever a new
+// dataset is stored; older editions are computed on first request. Recaps are
+// tied to the snapshot they were computed from and the number of songs with a
+// release year (the enrichment job fills in missing ones), and recomputed when
+// either changes. The optional Dutch narrative is written by the LLM chain
+// and kept until an admin regenerates it or the figures it was written from
+// change; an edition that is still being filled in gets no written narrative.
+
+const RECAP_PREFIX = 'top2000_recap:';
+const NARRATIVE_PREFIX = 'top2000_recap_narrative:';
+export const RECAP_VERSION = 'v1';
+export const NARRATIVE_PROMPT_VERSION = 'v1';
+
+const MOVERS_LIMIT = 10;
+
+// Wikipedia fills in an edition from 2000 up to 1 during the broadcast. It
+// counts as complete once it has a number 1 and (nearly) all songs, a few
+// rows may fail to parse.
+const EDITION_SIZE = 2000;
+const COMPLETE_SHARE = 0.99;
+
+const isRanked = (rank) => rank !== null && rank !== undefined;
+
+const summarize = (song, year, previousYear) => ({
+    id: song.id,
+    artist: song.artist,
+    title: song.title,
+    releaseYear: song.releaseYear || null,
+    rank: song.rankings?.[year] ?? null,
+    previousRank: previousYear ? song.rankings?.[previousYear] ?? null : null
+});
+
+const averageReleaseYear = (songs) => {
+    const years = songs.map(s => s.releaseYear).filter(y => y > 0);
+    return years.length > 0 ? Math.round(years.reduce((sum, y) => sum + y, 0) / years.length * 10) / 10 : null;
+};
+
+const decadeShares = (songs) => {
+    const counts = new Map<string, number>();
+    const dated = songs.filter(s => s.releaseYear > 0);
+    dated.forEach(s => {
+        const decade = `${Math.floor(s.releaseYear / 10) * 10}`;
+        counts.set(decade, (counts.get(decade) || 0) + 1);
+    });
+    return Array.from(counts.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([decade, count]) => ({ decade, count, share: Math.round(count / dated.length * 1000) / 10 }));
+};
+
+export const getEditions = (songs) => {
+    const years = new Set<string>();
+    songs.forEach(s => Object.keys(s.rankings || {}).forEach(y => years.add(y)));
+    return Array.from(years).sort();
+};
+
+// Computes the recap of `year` from the full dataset. Returns null when the
+// edition does not exist.
+export function computeRecap(songs, year) {
+    const editions = getEditions(songs);
+    const index = editions.indexOf(year);
+    if (index < 0) return null;
+
+    const previousYear = index > 0 ? editions[index - 1] : null;
+    const earlierEditions = editions.slice(0, index);
+
+    const inEdition = songs.filter(s => isRanked(s.rankings?.[year]));
+    const byRank = (key) => (a, b) => (a.rankings[key] || 9999) - (b.rankings[key] || 9999);
+
+    const newcomers = inEdition
+        .filter(s => !earlierEditions.some(y => isRanked(s.rankings?.[y])))
+        .sort(byRank(year));
+    const reEntries = previousYear ? inEdition
+        .filter(s => !isRanked(s.rankings?.[previousYear]) && earlierEditions.some(y => isRanked(s.rankings?.[y])))
+        .sort(byRank(year)) : [];
+    const leavers = previousYear ? songs
+        .filter(s => isRanked(s.rankings?.[previousYear]) && !isRanked(s.rankings?.[year]))
+        .sort(byRank(previousYear)) : [];
+
+    // Positive movement = climbed (lower rank number than last year)
+    const movers = previousYear ? inEdition
+        .filter(s => isRanked(s.rankings?.[previousYear]))
+        .map(s => ({ song: s, movement: s.rankings[previousYear] - s.rankings[year] })) : [];
+    const climbers = movers.filter(m => m.movement > 0)
+        .sort((a, b) => b.movement - a.movement || a.song.rankings[year] - b.song.rankings[year])
+        .slice(0, MOVERS_LIMIT);
+    const fallers = movers.filter(m => m.movement < 0)
+        .sort((a, b) => a.movement - b.movement || a.song.rankings[year] - b.song.rankings[year])
+        .slice(0, MOVERS_LIMIT);
+
+    const numberOne = inEdition.find(s => s.rankings[year] === 1);
+    const previousNumberOne = previousYear ? songs.find(s => s.rankings?.[previousYear] === 1) : null;
+    const previousEdition = previousYear ? songs.filter(s => isRanked(s.rankings?.[previousYear])) : [];
+
+    return {
+        edition: year,
+        previousEdition: previousYear,
+        version: RECAP_VERSION,
+        counts: {
+            songs: inEdition.length,
+            newcomers: newcomers.length,
+            reEntries: reEntries.length,
+            leavers: leavers.length
+        },
+        numberOne: numberOne ? {
+            ...summarize(numberOne, year, previousYear),
+            isNew: !previousNumberOne || previousNumberOne.id !== numberOne.id
+        } : null,
+        previousNumberOne: previousNumberOne ? summarize(previousNumberOne, year, previousYear) : null,
+        newcomers: newcomers.map(s => summarize(s, year, previousYear)),
+        reEntries: reEntries.map(s => summarize(s, year, previousYear)),
+        leavers: leavers.map(s => summarize(s, year, previousYear)),
+        climbers: climbers.map(m => ({ ...summarize(m.song, year, previousYear), movement: m.movement })),
+        fallers: fallers.map(m => ({ ...summarize(m.song, year, previousYear), movement: m.movement })),
+        averageReleaseYear: averageReleaseYear(inEdition),
+        previousAverageReleaseYear: previousYear ? averageReleaseYear(previousEdition) : null,
+        decades: decadeShares(inEdition)
+    };
+}
+
+const recapKey = (year) => `${RECAP_PREFIX}${RECAP_VERSION}:${year}`;
+
+// Returns the stored recap when it was computed from `snapshotId` and the same
+// release years, otherwise computes and stores it again. Returns null for an
+// unknown edition.
+export async function getRecap(env, songs, year, snapshotId) {
+    const datedSongs = songs.filter(s => s.releaseYear > 0).length;
+    const stored = await env.ITUNES_CACHE.get(recapKey(year), 'json');
+    if (stored && stored.snapshotId === snapshotId && stored.datedSongs === datedSongs) return stored;
+
+    const recap = computeRecap(songs, year);
+    if (!recap) return null;
+
+    const entry = { ...recap, snapshotId, datedSongs, generatedAt: new Date().toISOString() };
+    await env.ITUNES_CACHE.put(recapKey(year), JSON.stringify(entry));
+    return entry;
+}
+
+// Called after every stored dataset: (re)computes the recap of the latest
+// edition, so a new edition has its recap as soon as it lands.
+export async function updateLatestRecap(env, songs, snapshotId) {
+    const editions = getEditions(songs);
+    if (editions.length === 0) return;
+    const recap = await getRecap(env, songs, editions[editions.length - 1], snapshotId);
+    console.log(`Recap for ${recap.edition} is up to date (${recap.counts.newcomers} newcomers).`);
+}
+
+// --- Narrative ---
+
+const songLine = (s) => `${s.artist} - ${s.title}${s.releaseYear ? ` (${s.releaseYear})` : ''}`;
+
+export const buildNarrativeMessages = (recap) => [
+    {
+        role: 'system',
+        content: 'Je bent een Nederlandse radiojournalist die het jaaroverzicht van de NPO Radio 2 Top 2000 schrijft. Je verzint geen feiten en gebruikt alleen de gegeven cijfers.'
+    },
+    {
+        role: 'user',
+        content:
+            `Schrijf een levendig jaaroverzicht van de Top 2000 van ${recap.edition} in 3 korte alinea's (max 180 woorden), zonder kopjes.\n` +
+            `Nummer 1: ${recap.numberOne ? songLine(recap.numberOne) : 'onbekend'}${recap.numberOne?.isNew ? ' (nieuwe nummer 1)' : ''}\n` +
+            (recap.previousNumberOne ? `Nummer 1 in ${recap.previousEdition}: ${songLine(recap.previousNumberOne)}\n` : '') +
+            `Nieuwkomers: ${recap.counts.newcomers}, hoogste: ${recap.newcomers.slice(0, 3).map(s => `${songLine(s)} op ${s.rank}`).join('; ') || 'geen'}\n` +
+            `Terugkeerders: ${recap.counts.reEntries}; afvallers: ${recap.counts.leavers}\n` +
+            `Grootste stijgers: ${recap.climbers.slice(0, 3).map(s => `${songLine(s)} (+${s.movement})`).join('; ') || 'geen'}\n` +
+            `Grootste dalers: ${recap.fallers.slice(0, 3).map(s => `${songLine(s)} (${s.movement})`).join('; ') || 'geen'}\n` +
+            `Gemiddeld jaar van uitgave: ${recap.averageReleaseYear}${recap.previousAverageReleaseYear ? ` (vorig jaar ${recap.previousAverageReleaseYear})` : ''}\n` +
+            `Decennia: ${recap.decades.map(d => `${d.decade}s ${d.share}%`).join(', ')}`
+    }
+];
+
+// Deterministic narrative for the offline template provider
+export const narrativeTemplate = (recap) => () => {
+    const topDecade = [...recap.decades].sort((a, b) => b.count - a.count)[0];
+    const parts = [
+        recap.numberOne
+            ? `${recap.numberOne.isNew ? 'Nieuw op 1' : 'Opnieuw op 1'} in de Top 2000 van ${recap.edition}: ${recap.numberOne.title} van ${recap.numberOne.artist}.`
+            : `De Top 2000 van ${recap.edition}.`,
+        `De lijst telt ${recap.counts.newcomers} nieuwkomers en ${recap.counts.reEntries} terugkeerders; ${recap.counts.leavers} nummers vielen af.`
+    ];
+    if (recap.climbers[0]) {
+        parts.push(`De grootste stijger is ${recap.climbers[0].title} van ${recap.climbers[0].artist} (+${recap.climbers[0].movement}).`);
+    }
+    if (recap.averageReleaseYear) {
+        parts.push(`Het gemiddelde nummer komt uit ${Math.round(recap.averageReleaseYear)}${topDecade ? `, en de jaren ${topDecade.decade.substring(2)} zijn met ${topDecade.share}% het best vertegenwoordigd` : ''}.`);
+    }
+    return parts.join(' ');
+};
+
+export const isEditionComplete = (recap) =>
+    !!recap.numberOne && recap.counts.songs >= EDITION_SIZE * COMPLETE_SHARE;
+
+const narrativeKey = (year) => `${NARRATIVE_PREFIX}${NARRATIVE_PROMPT_VERSION}:${year}`;
+
+const encoder = new TextEncoder();
+
+// Fingerprint of the figures a narrative is written from (the prompt)
+const narrativeInputHash = async (recap) => {
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(JSON.stringify(buildNarrativeMessages(recap))));
+    return Array.from(new Uint8Array(digest).slice(0, 16)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// The stored narrative of the recap's edition, or null when there is none or
+// it was written from other figures (an earlier, partial list)
+export async function getNarrative(env, recap) {
+    const stored = await env.ITUNES_CACHE.get(narrativeKey(recap.edition), 'json');
+    return stored && stored.inputHash === await narrativeInputHash(recap) ? stored : null;
+}
+
+// entry: { text, provider, model }
+export async function saveNarrative(env, recap, entry) {
+    const stored = {
+        ...entry,
+        promptVersion: NARRATIVE_PROMPT_VERSION,
+        inputHash: await narrativeInputHash(recap),
+        generatedAt: new Date().toISOString()
+    };
+    await env.ITUNES_CACHE.put(narrativeKey(recap.edition), JSON.stringify(stored));
+    return stored;
+}
@@ -0,0 +1,119 @@
+// --- Release Years ---
+// Songs whose Wikipedia row has no usable "jaar" cell come in with
+// releaseYear 0. The enrichment job (enrichment.ts) resolves a year for every
+// song from two sources:
+//   musicbrainz  the earliest first-release-date of the matching recordings
+//   itunes       the year of the iTunes releaseDate (often a reissue or
+//                compilation, so only used without MusicBrainz)
+// and rates how far it trusts the match:
+//   high    MusicBrainz and iTunes agree within a year
+//   medium  MusicBrainz only, or the two disagree (MusicBrainz wins)
+//   low     iTunes only
+// The year fills in songs without one; songs that have one are checked
+// against it, and a high or medium year that is more than a year off is
+// listed for review (GET /data/release-years). Wikipedia is never overwritten.
+//
+//   MUSICBRAINZ_API_BASE_URL  default https://musicbrainz.org/ws/2
+//   ENRICH_RELEASE_YEARS      false skips the lookups
+
+import { namesMatch } from './itunes';
+
+const DEFAULT_MUSICBRAINZ_BASE_URL = 'https://musicbrainz.org/ws/2';
+const LOOKUP_TIMEOUT_MS = 5000;
+const MAX_RECORDINGS = 25;
+const MUSICBRAINZ_INTERVAL_MS = 1000; // their limit: one request per second
+const AGREEMENT_YEARS = 1;
+const MIN_YEAR = 1900;
+
+// MusicBrainz refuses requests without an identifying User-Agent
+const USER_AGENT = 'Top2000Allertijden/1.0 ( https://top2000allertijden.nl )';
+
+export const releaseYearsEnabled = (env) => env.ENRICH_RELEASE_YEARS !== 'false';
+
+const baseUrl = (value, fallback) => (value || fallback).replace(/\/+$/, '');
+
+const quoted = (text) => text.replace(/"/g, '');
+
+// "1975-10-31", "1975" → 1975; null for anything else
+const yearOf = (date) => {
+    const year = parseInt(String(date || '').substring(0, 4));
+    return year >= MIN_YEAR && year <= new Date().getFullYear() + 1 ? year : null;
+};
+
+let lastMusicBrainzRequest = 0;
+
+// Keeps this isolate's requests one interval apart
+async function waitForMusicBrainz() {
+    const wait = lastMusicBrainzRequest + MUSICBRAINZ_INTERVAL_MS - Date.now();
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+    lastMusicBrainzRequest = Date.now();
+}
+
+// The earliest first release of a recording with the song's artist and title
+async function searchMusicBrainz(env, artist, title) {
+    await waitForMusicBrainz();
+    const query = `artist:"${quoted(artist)}" AND recording:"${quoted(title)}"`;
+    const url = `${baseUrl(env.MUSICBRAINZ_API_BASE_URL, DEFAULT_MUSICBRAINZ_BASE_URL)}/recording?query=${encodeURIComponent(query)}&fmt=json&limit=${MAX_RECORDINGS}`;
+    const response = await fetch(url, {
+        headers: { 'User-Agent': USER_AGENT, 'Accept': 'application/json' },
+        signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS)
+    });
+    if (!response.ok) throw new Error(`MusicBrainz answered ${response.status}`);
+    const data = await response.json();
+
+    const years = (data.recordings || [])
+        .filter(recording => namesMatch(recording.title || '', title) &&
+            namesMatch((recording['artist-credit'] || []).map(credit => credit.name).join(' '), artist))
+        .map(recording => yearOf(recording['first-release-date']))
+        .filter(Boolean);
+    return years.length > 0 ? Math.min(...years) : null;
+}
+
+// Returns { releaseYear, releaseYearSource, releaseYearConfidence } for an
+// index entry; all null when neither source has a year. itunesReleaseDate is
+// the entry's iTunes releaseDate. Throws when MusicBrainz fails.
+export async function resolveReleaseYear(env, artist, title, itunesReleaseDate) {
+    const musicbrainz = await searchMusicBrainz(env, artist, title);
+    const itunes = yearOf(itunesReleaseDate);
+
+    if (musicbrainz) {
+        const agrees = itunes !== null && Math.abs(musicbrainz - itunes) <= AGREEMENT_YEARS;
+        return {
+            releaseYear: agrees ? Math.min(musicbrainz, itunes) : musicbrainz,
+            releaseYearSource: 'musicbrainz',
+            releaseYearConfidence: agrees ? 'high' : 'medium'
+        };
+    }
+    if (itunes) {
+        return { releaseYear: itunes, releaseYearSource: 'itunes', releaseYearConfidence: 'low' };
+    }
+    return { releaseYear: null, releaseYearSource: null, releaseYearConfidence: null };
+}
+
+// True when a resolved year is trusted enough to question the Wikipedia year
+export const isReleaseYearConflict = (wikipediaYear, entry) =>
+    wikipediaYear > 0 && !!entry?.releaseYear && entry.releaseYearConfidence !== 'low' &&
+    Math.abs(entry.releaseYear - wikipediaYear) > AGREEMENT_YEARS;
+
+// The review list: years the job filled in and years that contradict Wikipedia
+export function releaseYearReview(songs, index) {
+    const row = (song) => {
+        const entry = index[song.id];
+        return {
+            id: song.id,
+            artist: song.artist,
+            title: song.title,
+            wikipediaYear: song.releaseYear || null,
+            releaseYear: entry.releaseYear,
+            source: entry.releaseYearSource,
+            confidence: entry.releaseYearConfidence
+        };
+    };
+
+    return {
+        backfilled: songs.filter(song => !song.releaseYear && index[song.id]?.releaseYear).map(row),
+        conflicts: songs.filter(song => isReleaseYearConflict(song.releaseYear, index[song.id])).map(row),
+        missing: songs.filter(song => !song.releaseYear && index[song.id]?.releaseYear === null)
+            .map(song => ({ id: song.id, artist: song.artist, title: song.title }))
+    };
+}
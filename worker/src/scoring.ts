@@ -0,0 +1,150 @@
+// --- All-Time Scoring ---
+// Named scoring models, selectable via ?scoring= on /data/all-time and /export.
+// Every model maps a single edition rank to points; the all-time score is the
+// sum over all editions up to the effective all-time year.
+
+export const DEFAULT_SCORING_MODEL = 'linear';
+
+const isRanked = (rank) => rank !== null && rank !== undefined && rank > 0 && rank <= 2000;
+
+export const calculateScoreForYear = (rank) => {
+    if (isRanked(rank)) {
+        return 2001 - rank;
+    }
+    return 0;
+};
+
+interface ScoringModel {
+    label: string;
+    description: string;
+    // Points for one edition; latestYear is the last edition that counts
+    score: (rank, year?: number, latestYear?: number) => number;
+}
+
+export const SCORING_MODELS: Record<string, ScoringModel> = {
+    linear: {
+        label: 'Lineair (2001 - positie)',
+        description: 'Nummer 1 krijgt 2000 punten, nummer 2000 krijgt 1 punt.',
+        score: (rank) => calculateScoreForYear(rank)
+    },
+    borda: {
+        label: 'Borda met top 100-bonus',
+        description: 'Lineaire Borda-telling plus een bonus van (101 - positie) x 10 punten voor de top 100.',
+        score: (rank) => {
+            if (!isRanked(rank)) return 0;
+            const bonus = rank <= 100 ? (101 - rank) * 10 : 0;
+            return (2001 - rank) + bonus;
+        }
+    },
+    appearances: {
+        label: 'Aantal noteringen',
+        description: 'Eén punt per editie waarin het nummer genoteerd stond.',
+        score: (rank) => isRanked(rank) ? 1 : 0
+    },
+    recency: {
+        label: 'Recentheid (verval 15% per jaar)',
+        description: 'Lineaire punten, vermenigvuldigd met 0,85 voor elk jaar dat de editie ouder is dan de meest recente editie.',
+        score: (rank, year, latestYear) => {
+            if (!isRanked(rank)) return 0;
+            return (2001 - rank) * Math.pow(0.85, Math.max(0, latestYear - year));
+        }
+    }
+};
+
+export const getScoringModel = (id) => {
+    const key = id || DEFAULT_SCORING_MODEL;
+    return SCORING_MODELS[key] ? { id: key, ...SCORING_MODELS[key] } : null;
+};
+
+export const listScoringModels = () => Object.entries(SCORING_MODELS).map(([id, model]) => ({
+    id,
+    label: model.label,
+    description: model.description
+}));
+
+export const calculateAllTimeScore = (song, limitYear?, model = SCORING_MODELS[DEFAULT_SCORING_MODEL], fromYear?) => {
+    let score = 0;
+    Object.entries(song.rankings).forEach(([yearStr, rank]) => {
+        const year = parseInt(yearStr);
+        if (limitYear !== undefined && year > limitYear) return;
+        if (fromYear !== undefined && year < fromYear) return;
+        score += model.score(rank, year, limitYear ?? year);
+    });
+    return score;
+};
+
+// The latest edition only counts once it is (nearly) complete, so a list that is
+// still being broadcast does not distort the all-time ranking.
+export const getEffectiveAllTimeYear = (songs) => {
+    let maxYear = 0;
+    let maxYearCount = 0;
+
+    const allYears = new Set<number>();
+    songs.forEach(s => {
+       Object.keys(s.rankings).forEach(y => {
+           const yInt = parseInt(y);
+           if(!isNaN(yInt)) allYears.add(yInt);
+       });
+    });
+
+    if (allYears.size > 0) {
+       maxYear = Math.max(...Array.from(allYears));
+       maxYearCount = songs.filter(s => s.rankings[maxYear.toString()] !== undefined && s.rankings[maxYear.toString()] !== null).length;
+    }
+
+    const isLatestYearIncomplete = maxYearCount < 1500;
+    return isLatestYearIncomplete ? maxYear - 1 : maxYear;
+};
+
+// Scores and ranks songs with the given model. Sets totalScore, allTimeRank and
+// previousAllTimeRank (the rank without the last year of the window).
+// An optional { from, to } range limits the editions that count; songs without
+// any points in that window are left out.
+export function rankSongs(songs, modelId = DEFAULT_SCORING_MODEL, range: { from?: number, to?: number } = {}) {
+    const model = SCORING_MODELS[modelId] || SCORING_MODELS[DEFAULT_SCORING_MODEL];
+    const linear = SCORING_MODELS[DEFAULT_SCORING_MODEL];
+    const effectiveAllTimeYear = getEffectiveAllTimeYear(songs);
+    const hasRange = range.from !== undefined || range.to !== undefined;
+    const toYear = range.to !== undefined ? Math.min(range.to, effectiveAllTimeYear) : effectiveAllTimeYear;
+    const fromYear = range.from;
+
+    // Calculate scores (linear score breaks ties for coarse models like appearances)
+    let scoredSongs = songs.map(song => ({
+        ...song,
+        totalScore: Math.round(calculateAllTimeScore(song, toYear, model, fromYear)),
+        previousTotalScore: calculateAllTimeScore(song, toYear - 1, model, fromYear),
+        tieBreakScore: calculateAllTimeScore(song, toYear, linear, fromYear),
+        previousTieBreakScore: calculateAllTimeScore(song, toYear - 1, linear, fromYear)
+    }));
+
+    if (hasRange) {
+        scoredSongs = scoredSongs.filter(song => song.tieBreakScore > 0);
+    }
+
+    // Assign All-Time Ranks (Current Safe Year)
+    scoredSongs.sort((a, b) => (b.totalScore - a.totalScore) || (b.tieBreakScore - a.tieBreakScore));
+    scoredSongs = scoredSongs.map((song, index) => ({
+      ...song,
+      allTimeRank: index + 1
+    }));
+
+    // Assign All-Time Ranks (Previous Safe Year)
+    const prevSorted = [...scoredSongs].sort((a, b) =>
+        (b.previousTotalScore - a.previousTotalScore) || (b.previousTieBreakScore - a.previousTieBreakScore));
+
+    const prevRankMap = new Map();
+    prevSorted.forEach((song, index) => {
+        if (song.previousTotalScore > 0) {
+            prevRankMap.set(song.id, index + 1);
+        }
+    });
+
+    // Merge back
+    return scoredSongs.map(song => {
+        const { previousTotalScore, tieBreakScore, previousTieBreakScore, ...rest } = song;
+        return {
+            ...rest,
+            previousAllTimeRank: prevRankMap.get(song.id)
+        };
+    });
+}
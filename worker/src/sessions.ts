@@ -0,0 +1,105 @@
+// --- Streaming Sessions ---
+// Refresh tokens never leave the worker. The browser gets an opaque, HttpOnly
+// session cookie; the tokens are stored AES-GCM encrypted in KV under a hash of
+// the session id. The frontend only receives short-lived access tokens.
+// Requires the SESSION_ENCRYPTION_KEY secret (wrangler secret put SESSION_ENCRYPTION_KEY).
+
+import { base64Url, fromBase64Url, randomToken, readCookie } from './oauth';
+
+const SESSION_COOKIE = 'top2000_session';
+const SESSION_TTL = 60 * 60 * 24 * 90; // 90 days, renewed on every refresh
+const SERVICES = ['spotify', 'youtube'];
+
+const encoder = new TextEncoder();
+
+const getEncryptionKey = async (env) => {
+    if (!env.SESSION_ENCRYPTION_KEY) {
+        throw new Error('SESSION_ENCRYPTION_KEY is not configured');
+    }
+    const raw = await crypto.subtle.digest('SHA-256', encoder.encode(env.SESSION_ENCRYPTION_KEY));
+    return await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+};
+
+// KV key per session and service; the raw session id is never stored
+const storageKey = async (sessionId, service) => {
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(sessionId));
+    return `session:${base64Url(new Uint8Array(digest))}:${service}`;
+};
+
+export const getSessionId = (request) => readCookie(request, SESSION_COOKIE);
+
+export const newSessionId = () => randomToken(32);
+
+export const sessionCookie = (sessionId) =>
+    `${SESSION_COOKIE}=${sessionId}; Path=/auth/; Max-Age=${SESSION_TTL}; HttpOnly; Secure; SameSite=Lax`;
+
+export const clearSessionCookie = () =>
+    `${SESSION_COOKIE}=; Path=/auth/; Max-Age=0; HttpOnly; Secure; SameSite=Lax`;
+
+// Stores { refreshToken } for a service. The KV key is bound into the
+// ciphertext, so a value cannot be moved to another session.
+export async function saveSessionTokens(env, sessionId, service, tokens) {
+    const key = await storageKey(sessionId, service);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: encoder.encode(key) },
+        await getEncryptionKey(env),
+        encoder.encode(JSON.stringify(tokens))
+    );
+
+    await env.ITUNES_CACHE.put(key, JSON.stringify({
+        iv: base64Url(iv),
+        data: base64Url(new Uint8Array(ciphertext))
+    }), { expirationTtl: SESSION_TTL });
+}
+
+export async function getSessionTokens(env, sessionId, service) {
+    if (!sessionId) return null;
+    const key = await storageKey(sessionId, service);
+    const stored = await env.ITUNES_CACHE.get(key, 'json');
+    if (!stored) return null;
+
+    try {
+        const plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: fromBase64Url(stored.iv), additionalData: encoder.encode(key) },
+            await getEncryptionKey(env),
+            fromBase64Url(stored.data)
+        );
+        return JSON.parse(new TextDecoder().decode(plaintext));
+    } catch (e) {
+        console.error(`Could not decrypt ${service} session tokens`, e.message);
+        return null;
+    }
+}
+
+export async function deleteSessionTokens(env, sessionId, service) {
+    await env.ITUNES_CACHE.delete(await storageKey(sessionId, service));
+}
+
+// True when the session still holds tokens for any service
+export async function hasAnySessionTokens(env, sessionId) {
+    const stored = await Promise.all(SERVICES.map(async service =>
+        env.ITUNES_CACHE.get(await storageKey(sessionId, service))));
+    return stored.some(Boolean);
+}
+
+// Session routes are called with credentials, which rules out
+// 'Access-Control-Allow-Origin: *'. Only the frontend (plus optional
+// comma-separated DEV_ORIGINS) may use the session cookie.
+export function getSessionCorsHeaders(request, env) {
+    const origin = request.headers.get('Origin');
+    const allowed = [env.FRONTEND_URL, ...(env.DEV_ORIGINS || '').split(',')]
+        .map(o => (o || '').trim().replace(/\/$/, ''))
+        .filter(Boolean);
+
+    const headers = {
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Vary': 'Origin'
+    };
+    if (origin && allowed.includes(origin)) {
+        headers['Access-Control-Allow-Origin'] = origin;
+        headers['Access-Control-Allow-Credentials'] = 'true';
+    }
+    return headers;
+}
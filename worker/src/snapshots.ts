@@ -0,0 +1,202 @@
+// --- Edition Snapshots ---
+// Every scrape result is stored as a dated, immutable snapshot so we can see
+// how the dataset looked before Wikipedia was edited.
+
+const SNAPSHOT_PREFIX = 'top2000_snapshot:';
+const LATEST_SNAPSHOT_KEY = 'top2000_snapshot_latest';
+
+const hashSongs = async (songs) => {
+    const bytes = new TextEncoder().encode(JSON.stringify(songs));
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const getEditions = (songs) => {
+    const years = new Set<string>();
+    songs.forEach(s => Object.keys(s.rankings || {}).forEach(y => years.add(y)));
+    return Array.from(years).sort();
+};
+
+// Stores a snapshot of the scored dataset. Identical consecutive scrapes are
+// not stored twice; the existing snapshot id is returned instead.
+export async function saveSnapshot(env, songs) {
+    const hash = await hashSongs(songs);
+    const latest = await env.ITUNES_CACHE.get(LATEST_SNAPSHOT_KEY, 'json');
+
+    if (latest && latest.hash === hash) {
+        return latest.id;
+    }
+
+    const id = new Date().toISOString();
+    const metadata = {
+        songCount: songs.length,
+        editions: getEditions(songs),
+        hash
+    };
+
+    await env.ITUNES_CACHE.put(`${SNAPSHOT_PREFIX}${id}`, JSON.stringify(songs), { metadata });
+    await env.ITUNES_CACHE.put(LATEST_SNAPSHOT_KEY, JSON.stringify({ id, hash }));
+
+    console.log(`Stored snapshot ${id} (${songs.length} songs).`);
+    return id;
+}
+
+// Lists all snapshots, oldest first.
+export async function listSnapshots(env) {
+    const snapshots = [];
+    let cursor = undefined;
+
+    do {
+        const page = await env.ITUNES_CACHE.list({ prefix: SNAPSHOT_PREFIX, cursor });
+        page.keys.forEach(key => {
+            snapshots.push({
+                id: key.name.substring(SNAPSHOT_PREFIX.length),
+                songCount: key.metadata?.songCount ?? null,
+                editions: key.metadata?.editions ?? []
+            });
+        });
+        cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    snapshots.sort((a, b) => a.id.localeCompare(b.id));
+    return snapshots;
+}
+
+// Resolves a full snapshot id or a date (YYYY-MM-DD) to a snapshot id.
+// A date resolves to the last snapshot taken on that day.
+export function resolveSnapshotId(snapshots, ref) {
+    if (!ref) return null;
+    const exact = snapshots.find(s => s.id === ref);
+    if (exact) return exact.id;
+
+    const sameDay = snapshots.filter(s => s.id.startsWith(ref));
+    return sameDay.length > 0 ? sameDay[sameDay.length - 1].id : null;
+}
+
+export async function getSnapshot(env, id) {
+    return await env.ITUNES_CACHE.get(`${SNAPSHOT_PREFIX}${id}`, 'json');
+}
+
+export async function getLatestSnapshotId(env) {
+    const latest = await env.ITUNES_CACHE.get(LATEST_SNAPSHOT_KEY, 'json');
+    return latest ? latest.id : null;
+}
+
+// The most recent stored snapshot, i.e. the last dataset that passed validation.
+export async function getLatestSnapshot(env) {
+    const latest = await env.ITUNES_CACHE.get(LATEST_SNAPSHOT_KEY, 'json');
+    return latest ? await getSnapshot(env, latest.id) : null;
+}
+
+// Serialised ranking history, used to recognise a song whose artist or title
+// changed between snapshots (and therefore got a new id).
+const historyKey = (song) => JSON.stringify(
+    Object.keys(song.rankings || {})
+        .filter(y => song.rankings[y] !== null && song.rankings[y] !== undefined)
+        .sort()
+        .map(y => [y, song.rankings[y]])
+);
+
+const summarize = (song) => ({
+    id: song.id,
+    artist: song.artist,
+    title: song.title,
+    allTimeRank: song.allTimeRank ?? null
+});
+
+const compareFields = (before, after) => {
+    const changes = {};
+    ['artist', 'title', 'releaseYear'].forEach(field => {
+        if (before[field] !== after[field]) {
+            changes[field] = { from: before[field], to: after[field] };
+        }
+    });
+    return changes;
+};
+
+const compareRankings = (before, after) => {
+    const editions = {};
+    const years = new Set([...Object.keys(before.rankings || {}), ...Object.keys(after.rankings || {})]);
+    years.forEach(year => {
+        const from = before.rankings?.[year] ?? null;
+        const to = after.rankings?.[year] ?? null;
+        if (from !== to) editions[year] = { from, to };
+    });
+    return editions;
+};
+
+// idAliases maps ids from an older id scheme to current ids (see identity.ts)
+export function diffSnapshots(fromSongs, toSongs, idAliases = {}) {
+    const toMap = new Map<string, any>(toSongs.map(s => [s.id, s]));
+    const currentId = (s) => toMap.has(s.id) ? s.id : (idAliases[s.id] ?? s.id);
+    const matchedIds = new Set(fromSongs.map(currentId));
+
+    const pairs = [];
+    let removed = fromSongs.filter(s => !toMap.has(currentId(s)));
+    let added = toSongs.filter(s => !matchedIds.has(s.id));
+
+    fromSongs.forEach(s => {
+        if (toMap.has(currentId(s))) pairs.push([s, toMap.get(currentId(s))]);
+    });
+
+    // Pair up renamed songs: unmatched on both sides, same unique ranking history
+    const countKeys = (list) => {
+        const counts = new Map();
+        list.forEach(s => {
+            const key = historyKey(s);
+            counts.set(key, (counts.get(key) || 0) + 1);
+        });
+        return counts;
+    };
+    const removedCounts = countKeys(removed);
+    const addedCounts = countKeys(added);
+    const addedByHistory = new Map<string, any>(added.map(s => [historyKey(s), s]));
+    const renamedFrom = new Set();
+    const renamedTo = new Set();
+
+    removed.forEach(s => {
+        const key = historyKey(s);
+        if (key === '[]' || removedCounts.get(key) !== 1 || addedCounts.get(key) !== 1) return;
+        const match = addedByHistory.get(key);
+        pairs.push([s, match]);
+        renamedFrom.add(s.id);
+        renamedTo.add(match.id);
+    });
+
+    removed = removed.filter(s => !renamedFrom.has(s.id));
+    added = added.filter(s => !renamedTo.has(s.id));
+
+    const rankChanges = [];
+    const metadataChanges = [];
+
+    pairs.forEach(([before, after]) => {
+        const fields = compareFields(before, after);
+        if (Object.keys(fields).length > 0) {
+            metadataChanges.push({
+                id: after.id,
+                previousId: before.id !== after.id ? before.id : undefined,
+                changes: fields
+            });
+        }
+
+        const editions = compareRankings(before, after);
+        const fromRank = before.allTimeRank ?? null;
+        const toRank = after.allTimeRank ?? null;
+        if (fromRank !== toRank || Object.keys(editions).length > 0) {
+            rankChanges.push({
+                ...summarize(after),
+                allTimeRank: { from: fromRank, to: toRank },
+                editions
+            });
+        }
+    });
+
+    rankChanges.sort((a, b) => (a.allTimeRank.to || 9999) - (b.allTimeRank.to || 9999));
+
+    return {
+        added: added.map(summarize).sort((a, b) => (a.allTimeRank || 9999) - (b.allTimeRank || 9999)),
+        removed: removed.map(summarize).sort((a, b) => (a.allTimeRank || 9999) - (b.allTimeRank || 9999)),
+        rankChanges,
+        metadataChanges
+    };
+}
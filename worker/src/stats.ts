@@ -0,0 +1,65 @@
+// --- Song & Artist Statistics ---
+
+import { calculateScoreForYear } from './scoring';
+
+const getEditionYears = (songs) => {
+    const years = new Set<number>();
+    songs.forEach(s => Object.keys(s.rankings || {}).forEach(y => {
+        const yInt = parseInt(y);
+        if (!isNaN(yInt)) years.add(yInt);
+    }));
+    return Array.from(years).sort((a, b) => a - b);
+};
+
+// All-time rank of every song as it stood right after each edition,
+// i.e. ranked on the cumulative score up to and including that year.
+// Returns: Map<songId, { [year]: rank }>
+export function computeAllTimeRankHistory(songs) {
+    const history = new Map<string, Record<string, number>>();
+    const runningScores = new Map<string, number>();
+    songs.forEach(s => {
+        history.set(s.id, {});
+        runningScores.set(s.id, 0);
+    });
+
+    getEditionYears(songs).forEach(year => {
+        const yearKey = year.toString();
+        songs.forEach(s => {
+            runningScores.set(s.id, runningScores.get(s.id) + calculateScoreForYear(s.rankings?.[yearKey]));
+        });
+
+        const ranked = songs
+            .filter(s => runningScores.get(s.id) > 0)
+            .sort((a, b) => runningScores.get(b.id) - runningScores.get(a.id));
+
+        ranked.forEach((s, index) => {
+            history.get(s.id)[yearKey] = index + 1;
+        });
+    });
+
+    return history;
+}
+
+export function getSongStats(song, allTimeRankHistory) {
+    let peakRank = null;
+    let peakYears = [];
+    let appearances = 0;
+
+    Object.entries(song.rankings || {}).forEach(([year, rank]) => {
+        if (rank === null || rank === undefined) return;
+        appearances++;
+        if (peakRank === null || rank < peakRank) {
+            peakRank = rank;
+            peakYears = [year];
+        } else if (rank === peakRank) {
+            peakYears.push(year);
+        }
+    });
+
+    return {
+        peakRank,
+        peakYears: peakYears.sort(),
+        appearances,
+        allTimeRankByEdition: allTimeRankHistory.get(song.id) || {}
+    };
+}
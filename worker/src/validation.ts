@@ -0,0 +1,145 @@
+// --- Scrape Validation ---
+// A half-broken Wikipedia edit can still produce rows (300 songs, shifted
+// columns). Scrapes are checked before they replace the dataset; rejected
+// scrapes are kept for a while so they can be inspected via /data/rejected.
+
+const REJECTED_PREFIX = 'top2000_rejected:';
+const REJECTED_TTL = 60 * 60 * 24 * 30; // 30 days
+
+const MIN_SONGS_PER_EDITION = 1900;   // complete editions have 2000 entries
+const MAX_LATEST_EDITION_DROP = 0.1;  // the running edition may grow, not shrink
+const MAX_DUPLICATE_RANKS = 5;        // tolerate a few typos on Wikipedia
+const MAX_OUT_OF_RANGE_RANKS = 5;
+const MAX_EDITION_COLUMN_DROP = 1;
+
+const countPerEdition = (songs) => {
+    const counts = {};
+    songs.forEach(s => Object.entries(s.rankings || {}).forEach(([year, rank]) => {
+        if (rank === null || rank === undefined) return;
+        counts[year] = (counts[year] || 0) + 1;
+    }));
+    return counts;
+};
+
+// Checks a fresh scrape, optionally against the previous good dataset.
+// Returns { valid, reasons, stats }.
+export function validateScrape(songs, previousSongs = null) {
+    const reasons = [];
+    const counts = countPerEdition(songs);
+    const editions = Object.keys(counts).sort();
+    const latestEdition = editions[editions.length - 1];
+
+    const duplicates: Record<string, number> = {};
+    const outOfRange: Record<string, number> = {};
+    editions.forEach(year => {
+        const seen = new Set();
+        songs.forEach(s => {
+            const rank = s.rankings?.[year];
+            if (rank === null || rank === undefined) return;
+            if (rank < 1 || rank > 2000) {
+                outOfRange[year] = (outOfRange[year] || 0) + 1;
+                return;
+            }
+            if (seen.has(rank)) duplicates[year] = (duplicates[year] || 0) + 1;
+            seen.add(rank);
+        });
+    });
+
+    if (editions.length === 0) {
+        reasons.push('No editions found');
+    }
+
+    // Song count per edition (the latest edition may still be incomplete)
+    editions.forEach(year => {
+        if (year !== latestEdition && counts[year] < MIN_SONGS_PER_EDITION) {
+            reasons.push(`Edition ${year} has only ${counts[year]} songs (expected at least ${MIN_SONGS_PER_EDITION})`);
+        }
+    });
+
+    Object.entries(duplicates).forEach(([year, count]) => {
+        if (count > MAX_DUPLICATE_RANKS) {
+            reasons.push(`Edition ${year} has ${count} duplicate ranks`);
+        }
+    });
+
+    Object.entries(outOfRange).forEach(([year, count]) => {
+        if (count > MAX_OUT_OF_RANGE_RANKS) {
+            reasons.push(`Edition ${year} has ${count} ranks outside 1-2000`);
+        }
+    });
+
+    // Compare with the last good dataset
+    let previousEditions = null;
+    if (previousSongs && previousSongs.length > 0) {
+        const previousCounts = countPerEdition(previousSongs);
+        previousEditions = Object.keys(previousCounts).length;
+
+        if (previousEditions - editions.length > MAX_EDITION_COLUMN_DROP) {
+            reasons.push(`Edition columns dropped from ${previousEditions} to ${editions.length}`);
+        }
+
+        const previousLatest = previousCounts[latestEdition];
+        if (previousLatest && counts[latestEdition] < previousLatest * (1 - MAX_LATEST_EDITION_DROP)) {
+            reasons.push(`Edition ${latestEdition} dropped from ${previousLatest} to ${counts[latestEdition]} songs`);
+        }
+    }
+
+    return {
+        valid: reasons.length === 0,
+        reasons,
+        stats: {
+            songCount: songs.length,
+            editions: editions.length,
+            previousEditions,
+            songsPerEdition: counts,
+            duplicateRanks: duplicates,
+            outOfRangeRanks: outOfRange
+        }
+    };
+}
+
+// Stores a rejected scrape (raw songs + reasons) for inspection.
+export async function recordRejectedScrape(env, songs, validation) {
+    const id = new Date().toISOString();
+    const record = {
+        id,
+        reasons: validation.reasons,
+        stats: validation.stats,
+        songs
+    };
+
+    await env.ITUNES_CACHE.put(`${REJECTED_PREFIX}${id}`, JSON.stringify(record), {
+        expirationTtl: REJECTED_TTL,
+        // KV metadata is capped at 1 KB, so only the first reasons go into the listing
+        metadata: { reasons: validation.reasons.slice(0, 5), reasonCount: validation.reasons.length, songCount: songs.length }
+    });
+
+    console.error(`Rejected scrape ${id}: ${validation.reasons.join('; ')}`);
+    return id;
+}
+
+// Lists rejected scrapes, newest first.
+export async function listRejectedScrapes(env) {
+    const rejected = [];
+    let cursor = undefined;
+
+    do {
+        const page = await env.ITUNES_CACHE.list({ prefix: REJECTED_PREFIX, cursor });
+        page.keys.forEach(key => {
+            rejected.push({
+                id: key.name.substring(REJECTED_PREFIX.length),
+                songCount: key.metadata?.songCount ?? null,
+                reasons: key.metadata?.reasons ?? [],
+                reasonCount: key.metadata?.reasonCount ?? 0
+            });
+        });
+        cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    rejected.sort((a, b) => b.id.localeCompare(a.id));
+    return rejected;
+}
+
+export async function getRejectedScrape(env, id) {
+    return await env.ITUNES_CACHE.get(`${REJECTED_PREFIX}${id}`, 'json');
+}
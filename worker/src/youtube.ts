@@ -0,0 +1,77 @@
+// --- YouTube Search ---
+// Finds the Top 2000 a gogo video of a song with the YouTube Data API. Used by
+// the /youtube/search route and the enrichment job; both check the cache and
+// reserve the search budget (rateLimit.ts) before calling searchYouTube.
+//
+//   YOUTUBE_API_KEY       API key (secret)
+//   YOUTUBE_API_BASE_URL  default https://www.googleapis.com/youtube/v3; point
+//                         it at worker/dev/metadata-standin.mjs to run offline
+
+import { reserveBudget } from './rateLimit';
+
+// YouTube Data API quota units per call
+export const YOUTUBE_SEARCH_COST = 100;
+const YOUTUBE_CHANNEL_LOOKUP_COST = 1;
+
+const DEFAULT_BASE_URL = 'https://www.googleapis.com/youtube/v3';
+const CHANNEL_HANDLE = 'Top2000agogo';
+const CACHE_TTL = 60 * 60 * 24 * 30; // 30 days
+
+const baseUrl = (env) => (env.YOUTUBE_API_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+// Changed cache key to invalidate old non-channel-restricted results
+const cacheKey = (artist, title) => `youtube-v2:${artist.toLowerCase()}:${title.toLowerCase()}`.replace(/\s+/g, '-');
+
+export async function getCachedYouTube(env, artist, title) {
+    return await env.ITUNES_CACHE.get(cacheKey(artist, title), 'json');
+}
+
+export async function saveYouTube(env, artist, title, result) {
+    await env.ITUNES_CACHE.put(cacheKey(artist, title), JSON.stringify(result), { expirationTtl: CACHE_TTL });
+}
+
+// The channel id of Top 2000 a gogo, looked up once and kept
+async function getChannelId(env) {
+    let channelId = await env.ITUNES_CACHE.get(`channel_id:${CHANNEL_HANDLE}`);
+    if (!channelId && await reserveBudget(env, 'youtube', YOUTUBE_CHANNEL_LOOKUP_COST)) {
+        try {
+            const channelResp = await fetch(`${baseUrl(env)}/channels?part=id&forHandle=${CHANNEL_HANDLE}&key=${env.YOUTUBE_API_KEY}`);
+            const channelData = await channelResp.json();
+            channelId = channelData.items?.[0]?.id;
+
+            if (channelId) {
+                await env.ITUNES_CACHE.put(`channel_id:${CHANNEL_HANDLE}`, channelId);
+            }
+        } catch (e) {
+            console.error('Failed to fetch channel ID:', e);
+        }
+    }
+    return channelId;
+}
+
+// Returns { videoId, title, thumbnail }, or null when there is no video.
+// Throws on API errors.
+export async function searchYouTube(env, artist, title) {
+    const channelId = await getChannelId(env);
+
+    const q = `${artist} ${title}`;
+    const url = channelId
+        ? `${baseUrl(env)}/search?part=snippet&q=${encodeURIComponent(q)}&type=video&maxResults=1&key=${env.YOUTUBE_API_KEY}&channelId=${channelId}`
+        // Fallback if channel ID fetch failed
+        : `${baseUrl(env)}/search?part=snippet&q=${encodeURIComponent(q + ' Top 2000 a gogo')}&type=video&maxResults=1&key=${env.YOUTUBE_API_KEY}`;
+
+    const response = await fetch(url);
+    if (!response.ok) {
+        const errText = await response.text();
+        throw new Error(`YouTube API error: ${response.status} ${errText}`);
+    }
+
+    const item = (await response.json()).items?.[0];
+    if (!item) return null;
+
+    return {
+        videoId: item.id.videoId,
+        title: item.snippet.title,
+        thumbnail: item.snippet.thumbnails?.high?.url || item.snippet.thumbnails?.default?.url
+    };
+}